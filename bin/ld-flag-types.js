@@ -0,0 +1,341 @@
+#!/usr/bin/env node
+
+/**
+ * Generates a TypeScript module with the flag keys, value types and defaults of a project.
+ *
+ * Reads a LaunchDarkly flag export (the response of `GET /api/v2/flags/{projectKey}`) or a local
+ * `flags.json` manifest and works fully offline from that file.
+ *
+ * Usage:
+ *   ld-flag-types <input.json> [--out <file.ts>] [--name <TypeName>] [--augment] [--check]
+ *
+ *   --out      Write the module to a file instead of stdout
+ *   --name     Name of the generated flag map interface (default: AppFlags)
+ *   --augment  Also augment the library's LDFlags interface with the generated flags
+ *   --check    Don't write anything, fail with a diff when --out is out of date
+ *
+ * Manifest format:
+ *   {
+ *     "flags": {
+ *       "checkout-v2": { "type": "boolean", "default": false },
+ *       "theme": { "variations": ["light", "dark"], "default": "light", "description": "Site theme" }
+ *     }
+ *   }
+ */
+import fs from 'fs';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+
+const LIBRARY = '@launchtarqly/launchdarkly-angular';
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Parses the command line arguments.
+ */
+function parseArgs(argv) {
+  const args = { name: 'AppFlags', augment: false, check: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out' || arg === '--name') {
+      const value = argv[++i];
+      if (!value) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      args[arg.slice(2)] = value;
+    } else if (arg === '--augment') {
+      args.augment = true;
+    } else if (arg === '--check') {
+      args.check = true;
+    } else if (arg === '--help' || arg === '-h') {
+      args.help = true;
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else if (args.input) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    } else {
+      args.input = arg;
+    }
+  }
+  if (!args.help && !args.input) {
+    throw new Error('Missing input file');
+  }
+  if (args.check && !args.out) {
+    throw new Error('--check requires --out');
+  }
+  if (!IDENTIFIER.test(args.name)) {
+    throw new Error(`Invalid type name: ${args.name}`);
+  }
+  return args;
+}
+
+/**
+ * Reads the flag definitions from a LaunchDarkly flag export or a local manifest.
+ * Each definition has a key, the list of possible values, a default and an optional description.
+ */
+function readFlags(file) {
+  let data;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${error.message}`);
+  }
+
+  // LaunchDarkly export: { items: [...] } or a plain array of flags
+  const items = Array.isArray(data) ? data : data?.items;
+  if (Array.isArray(items)) {
+    return items
+      .filter(flag => !flag.archived)
+      .map(flag => {
+        if (typeof flag.key !== 'string' || !Array.isArray(flag.variations)) {
+          throw new Error(`Invalid flag in ${file}: every flag needs a key and variations`);
+        }
+        const values = flag.variations.map(variation => variation.value);
+        // the value served when the flag is off; new flags serve their last variation when off
+        const offVariation = flag.defaults?.offVariation ?? values.length - 1;
+        return {
+          key: flag.key,
+          type: flag.kind === 'boolean' ? 'boolean' : undefined,
+          values,
+          defaultValue: values[offVariation],
+          description: flag.description || flag.name
+        };
+      });
+  }
+
+  if (data && typeof data.flags === 'object' && !Array.isArray(data.flags)) {
+    return Object.entries(data.flags).map(([key, definition]) => {
+      if (!definition || !Object.hasOwn(definition, 'default')) {
+        throw new Error(`Invalid flag "${key}" in ${file}: a default is required`);
+      }
+      return {
+        key,
+        type: definition.type,
+        values: definition.variations,
+        defaultValue: definition.default,
+        description: definition.description
+      };
+    });
+  }
+
+  throw new Error(`Unrecognized format in ${file}: expected a LaunchDarkly flag export ({ "items": [...] }) or a manifest ({ "flags": {...} })`);
+}
+
+/**
+ * Builds the TypeScript type of a flag from its type and possible values.
+ * Strings and numbers with variations become unions of their variations, JSON values become object types.
+ * Without variations the type is derived from the default, otherwise the default must be one of the variations.
+ */
+function flagType({ key, type, values, defaultValue }) {
+  const variations = values ?? [defaultValue];
+  const kind = type ?? valueKind(variations[0]);
+  if (kind !== 'json' && variations.some(value => valueKind(value) !== kind)) {
+    throw new Error(`Flag "${key}" is declared as ${kind} but has values of other types`);
+  }
+  if (values && !values.some(value => isDeepStrictEqual(value, defaultValue))) {
+    throw new Error(`Flag "${key}" has a default of ${JSON.stringify(defaultValue) ?? 'undefined'}, which is not one of its variations: ${values.map(value => JSON.stringify(value)).join(', ')}`);
+  }
+  switch (kind) {
+    case 'boolean':
+      return 'boolean';
+    case 'string':
+    case 'number':
+      return values ? union(values.map(value => literal(value))) : kind;
+    case 'json':
+      return union(variations.map(value => jsonType(value, 1)));
+    default:
+      throw new Error(`Flag "${key}" has an unsupported type: ${kind}`);
+  }
+}
+
+function valueKind(value) {
+  if (typeof value === 'boolean' || typeof value === 'string' || typeof value === 'number') {
+    return typeof value;
+  }
+  return 'json';
+}
+
+function jsonType(value, depth) {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    const items = union(value.map(item => jsonType(item, depth)));
+    return value.length ? (items.includes(' | ') ? `(${items})[]` : `${items}[]`) : 'unknown[]';
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (!entries.length) {
+      return 'Record<string, unknown>';
+    }
+    const indent = '  '.repeat(depth + 1);
+    const members = entries.map(([name, member]) => `${indent}${propertyName(name)}: ${jsonType(member, depth + 1)};`);
+    return `{\n${members.join('\n')}\n${'  '.repeat(depth)}}`;
+  }
+  return typeof value;
+}
+
+function union(types) {
+  return [...new Set(types)].join(' | ');
+}
+
+function propertyName(name) {
+  return IDENTIFIER.test(name) ? name : `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Serializes a JSON value as a TypeScript literal.
+ */
+function literal(value, depth = 1) {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => literal(item, depth)).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (!entries.length) {
+      return '{}';
+    }
+    const indent = '  '.repeat(depth + 1);
+    const members = entries.map(([name, member]) => `${indent}${propertyName(name)}: ${literal(member, depth + 1)}`);
+    return `{\n${members.join(',\n')}\n${'  '.repeat(depth)}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function lowerFirst(name) {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * Generates the TypeScript module for the flag definitions.
+ */
+function generate(flags, { name, augment, source }) {
+  const sorted = [...flags].sort((a, b) => a.key.localeCompare(b.key));
+  const defaults = `${lowerFirst(name)}Defaults`;
+  const lines = [
+    `// Generated by ld-flag-types from ${source}. Do not edit.`,
+    '',
+    `/** Keys of the feature flags */`,
+    `export type ${name}Key = ${sorted.length ? sorted.map(flag => literal(flag.key)).join(' | ') : 'never'};`,
+    '',
+    `/** Value types of the feature flags, for LaunchDarklyService<${name}> */`,
+    `export interface ${name} {`
+  ];
+  sorted.forEach(flag => {
+    if (flag.description) {
+      lines.push(`  /** ${flag.description.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ')} */`);
+    }
+    lines.push(`  ${propertyName(flag.key)}: ${flagType(flag)};`);
+  });
+  lines.push('}', '');
+  lines.push(`/** Declared defaults of the feature flags, for withFlagDefaults() */`);
+  lines.push(`export const ${defaults}: ${name} = {`);
+  lines.push(sorted.map(flag => `  ${propertyName(flag.key)}: ${literal(flag.defaultValue)}`).join(',\n'));
+  lines.push('};');
+  if (augment) {
+    lines.push(
+      '',
+      `declare module '${LIBRARY}' {`,
+      '  // eslint-disable-next-line @typescript-eslint/no-empty-object-type',
+      `  interface LDFlags extends ${name} {}`,
+      '}'
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Builds a line diff between the current and the expected output.
+ * Only changed lines and a few lines of context around them are included.
+ */
+function diff(current, expected, context = 2) {
+  const a = current.split('\n');
+  const b = expected.split('\n');
+  // longest common subsequence table, generated modules are small enough for this
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const ops = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i], number: i + 1 });
+      i++;
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ type: '-', line: a[i], number: i + 1 });
+      i++;
+    } else {
+      ops.push({ type: '+', line: b[j], number: i + 1 });
+      j++;
+    }
+  }
+  const output = [];
+  let last = -2;
+  ops.forEach((op, index) => {
+    const near = ops.slice(Math.max(0, index - context), index + context + 1).some(other => other.type !== ' ');
+    if (!near) {
+      return;
+    }
+    if (index !== last + 1) {
+      output.push(`@@ line ${op.number} @@`);
+    }
+    output.push(`${op.type} ${op.line}`);
+    last = index;
+  });
+  return output.join('\n');
+}
+
+function main() {
+  let args;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`ld-flag-types: ${error.message}`);
+    console.error('Usage: ld-flag-types <input.json> [--out <file.ts>] [--name <TypeName>] [--augment] [--check]');
+    return 1;
+  }
+  if (args.help) {
+    console.log('Usage: ld-flag-types <input.json> [--out <file.ts>] [--name <TypeName>] [--augment] [--check]');
+    return 0;
+  }
+
+  let output;
+  try {
+    const source = args.out
+      ? path.relative(path.dirname(path.resolve(args.out)), path.resolve(args.input)).split(path.sep).join('/')
+      : path.basename(args.input);
+    output = generate(readFlags(args.input), { ...args, source });
+  } catch (error) {
+    console.error(`ld-flag-types: ${error.message}`);
+    return 1;
+  }
+
+  if (!args.out) {
+    process.stdout.write(output);
+    return 0;
+  }
+  if (args.check) {
+    const current = fs.existsSync(args.out) ? fs.readFileSync(args.out, 'utf8') : '';
+    if (current === output) {
+      console.log(`ld-flag-types: ${args.out} is up to date`);
+      return 0;
+    }
+    console.error(`ld-flag-types: ${args.out} is out of date with ${args.input}. Regenerate it without --check.\n`);
+    console.error('(- current, + expected)');
+    console.error(diff(current, output));
+    return 1;
+  }
+  fs.mkdirSync(path.dirname(path.resolve(args.out)), { recursive: true });
+  fs.writeFileSync(args.out, output);
+  console.log(`ld-flag-types: wrote ${args.out}`);
+  return 0;
+}
+
+process.exit(main());
@@ -0,0 +1,201 @@
+import { Directive, Input, ElementRef, Renderer2, OnInit, OnDestroy, SecurityContext, inject } from '@angular/core';
+import { DomSanitizer } from '@angular/platform-browser';
+import { Subscription, map, merge } from 'rxjs';
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+import type { LDFlagKey } from '../interfaces/launchdarkly.interface';
+import { selectPath } from '../utils/flag-conditions';
+
+/**
+ * Source of an attribute value for {@link LdAttrDirective}: a flag key, or a field of a JSON flag
+ */
+export type LdAttrSource = LDFlagKey | {
+  /** The LaunchDarkly flag key to evaluate */
+  flag: LDFlagKey;
+  /** Path of the field in a JSON flag, e.g. `'image.url'` or `'$.links[0].href'` */
+  path?: string;
+  /** Value to use if the flag (or the field) is not available */
+  fallback?: LDFlagValue;
+};
+
+// attributes that can be set, with the security context their values are sanitized for
+const ATTRIBUTE_CONTEXTS = new Map<string, SecurityContext>([
+  // load or navigate to a URL
+  ...['href', 'src', 'srcset', 'action', 'formaction', 'poster', 'cite', 'xlink:href']
+    .map(name => [name, SecurityContext.URL] as const),
+  // HTML documents
+  ['srcdoc', SecurityContext.HTML],
+  // plain text
+  ...[
+    'id', 'class', 'title', 'alt', 'role', 'lang', 'dir', 'name', 'value', 'type', 'placeholder', 'label', 'for',
+    'tabindex', 'width', 'height', 'target', 'rel', 'download', 'hreflang', 'loading', 'decoding', 'autocomplete',
+    'min', 'max', 'step', 'minlength', 'maxlength', 'size', 'cols', 'rows', 'colspan', 'rowspan', 'headers', 'scope',
+    'hidden', 'disabled', 'readonly', 'required', 'checked', 'selected', 'translate', 'spellcheck', 'draggable'
+  ].map(name => [name, SecurityContext.NONE] as const)
+]);
+
+/**
+ * Directive that sets element attributes from LaunchDarkly feature flag values and keeps them up to date.
+ * Useful for remote-configured link targets, image sources and accessibility labels.
+ * 
+ * ## Parameters
+ * 
+ * ### ldAttr (required)
+ * - **Type**: `Record<string, LdAttrSource>`
+ * - **Description**: Attributes by name, each set from a flag value or a field of a JSON flag.
+ *   `null`, `undefined` and `false` remove the attribute, `true` sets it without a value and objects are serialized as JSON.
+ *   Only known safe attributes, `aria-*` and `data-*` are set: URL attributes (`href`, `src`, `srcset`, ...) and
+ *   `srcdoc` are sanitized, text attributes are set as they are and all other attributes (`style`, `on*`, ...) are ignored.
+ *   Use `ldCssVars` for flag-driven styles.
+ * - **Example**: `{ href: 'promo-link', 'aria-label': 'promo-label' }`,
+ *   `{ src: { flag: 'hero-config', path: 'image.url', fallback: '/hero.png' } }`
+ * 
+ * ### ldAttrClient (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use, as registered with `provideLaunchDarkly({ name })`.
+ *   Uses the default client if not provided.
+ * - **Default**: `undefined`
+ * - **Example**: `'partner'`
+ * 
+ * ## Usage Examples
+ * 
+ * ### Attributes from Flag Values
+ * ```html
+ * <a [ldAttr]="{ href: 'promo-link', 'aria-label': 'promo-label', title: 'promo-label' }">See the offer</a>
+ * ```
+ * 
+ * ### Attributes from a JSON Flag
+ * ```html
+ * <!-- flag value: { "image": { "url": "/spring.png", "alt": "Spring sale" } } -->
+ * <img [ldAttr]="{
+ *   src: { flag: 'hero-config', path: 'image.url', fallback: '/hero.png' },
+ *   alt: { flag: 'hero-config', path: 'image.alt', fallback: 'Our products' }
+ * }">
+ * ```
+ */
+@Directive({
+  selector: '[ldAttr]',
+  standalone: true
+})
+export class LdAttrDirective implements OnInit, OnDestroy {
+  private subscription?: Subscription;
+  private clientName?: string;
+  private attributes: Record<string, LdAttrSource> = {};
+  private appliedAttributes = new Set<string>();
+
+  private elementRef = inject(ElementRef);
+  private renderer = inject(Renderer2);
+  private sanitizer = inject(DomSanitizer);
+  private ldService = inject(LaunchDarklyService);
+  private ldRegistry = inject(LaunchDarklyRegistry);
+
+  /**
+   * Attributes by name, each set from a flag value or a field of a JSON flag
+   */
+  @Input() set ldAttr(attributes: Record<string, LdAttrSource> | undefined) {
+    this.attributes = attributes ?? {};
+    // remove the attributes that are no longer bound
+    this.appliedAttributes.forEach(name => {
+      if (!Object.hasOwn(this.attributes, name)) {
+        this.setAttribute(name, undefined);
+      }
+    });
+    this.updateSubscription();
+  }
+
+  /**
+   * Name of the LaunchDarkly client to use. Uses the default client if not provided.
+   */
+  @Input() set ldAttrClient(clientName: string | undefined) {
+    this.clientName = clientName;
+    this.updateSubscription();
+  }
+
+  ngOnInit() {
+    this.updateSubscription();
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Resolves the LaunchDarkly service for the configured client name.
+   * 
+   * @returns The named service, or the default service if no client name is set
+   */
+  private resolveService(): LaunchDarklyService {
+    return this.clientName ? this.ldRegistry.get(this.clientName) : this.ldService;
+  }
+
+  /**
+   * Updates the subscription to LaunchDarkly flag changes.
+   * Cleans up existing subscription and creates a new one for the bound attributes.
+   */
+  private updateSubscription() {
+    // Clean up existing subscription
+    this.subscription?.unsubscribe();
+
+    const entries = Object.entries(this.attributes);
+    if (!entries.length) {
+      return;
+    }
+
+    // Subscribe to the flag of every attribute
+    const service = this.resolveService();
+    this.subscription = merge(...entries.map(([name, source]) => {
+      const { flag, path, fallback } = typeof source === 'string' ? { flag: source, path: undefined, fallback: undefined } : source;
+      // without a path the fallback is passed to the flag evaluation, with a path it replaces a missing field
+      return service.variation$(flag, path ? undefined : fallback).pipe(
+        map(flagValue => {
+          const value = path ? selectPath(flagValue, path) : flagValue;
+          return [name, value === undefined ? fallback : value] as const;
+        })
+      );
+    })).subscribe(([name, value]) => {
+      this.setAttribute(name, value);
+    });
+  }
+
+  /**
+   * Sets or removes an attribute of the element.
+   * 
+   * @param name - The attribute name
+   * @param value - The attribute value. `null`, `undefined` and `false` remove the attribute.
+   */
+  private setAttribute(name: string, value: LDFlagValue) {
+    const element = this.elementRef.nativeElement;
+    const context = securityContextOf(name);
+    if (context === null) {
+      console.warn(`[LaunchDarkly] ldAttr doesn't set the attribute "${name}"`);
+      return;
+    }
+    if (value === null || value === undefined || value === false) {
+      this.renderer.removeAttribute(element, name);
+      this.appliedAttributes.delete(name);
+      return;
+    }
+
+    let text = value === true ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (context !== SecurityContext.NONE) {
+      text = this.sanitizer.sanitize(context, text) ?? '';
+    }
+    this.renderer.setAttribute(element, name, text);
+    this.appliedAttributes.add(name);
+  }
+}
+
+/**
+ * Returns the security context of an attribute that ldAttr may set.
+ * 
+ * @param name - The attribute name
+ * @returns The security context to sanitize the value for, or null if the attribute can't be set
+ */
+function securityContextOf(name: string): SecurityContext | null {
+  const lowerName = name.toLowerCase();
+  if (/^(aria|data)-[a-z0-9_.-]+$/.test(lowerName)) {
+    return SecurityContext.NONE;
+  }
+  return ATTRIBUTE_CONTEXTS.get(lowerName) ?? null;
+}
@@ -1,7 +1,9 @@
 import { Directive, Input, ElementRef, OnInit, OnDestroy, ChangeDetectorRef, inject } from '@angular/core';
 import { Subscription } from 'rxjs';
 import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
 import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+import type { LDFlagKey } from '../interfaces/launchdarkly.interface';
 
 /**
  * Directive for conditionally applying CSS classes based on LaunchDarkly feature flags.
@@ -10,7 +12,7 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * ## Parameters
  * 
  * ### ldClassIf (required)
- * - **Type**: `string | LdClassIfConfig`
+ * - **Type**: `LDFlagKey | LdClassIfConfig`
  * - **Description**: The LaunchDarkly flag key or configuration object
  * - **Examples**: 
  *   - `'premium-features'` (string)
@@ -43,12 +45,27 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * - **Default**: `undefined`
  * - **Example**: `'basic-user'`, `'light-theme'`, `'btn btn-secondary'`
  * 
+ * ### ldClassIfClient (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use, as registered with `provideLaunchDarkly({ name })`.
+ *   Uses the default client if not provided.
+ * - **Default**: `undefined`
+ * - **Example**: `'partner'`
+ * 
+ * ### ldClassMap (optional)
+ * - **Type**: `LdClassMapConfig`
+ * - **Description**: Value-to-class mapping mode. Applies exactly the class(es) mapped to the current flag variation,
+ *   or `default` when the variation has no entry. On change, the classes of the previous variation are removed and the
+ *   new ones added in one step. It has its own subscription, so it can be combined with `ldClassIf` on one element.
+ * - **Default**: `undefined`
+ * - **Example**: `{ flag: 'density', classes: { compact: 'd-compact', comfy: 'd-comfy' }, default: 'd-normal' }`
+ * 
  * ## Configuration Object Properties
  * 
  * When using the object syntax for `ldClassIf`, you can provide a `LdClassIfConfig` object with the following properties:
  * 
  * ### flag (required)
- * - **Type**: `string`
+ * - **Type**: `LDFlagKey`
  * - **Description**: The LaunchDarkly flag key to evaluate
  * - **Example**: `'theme'`, `'user-tier'`, `'premium-features'`
  * 
@@ -72,6 +89,11 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * - **Description**: Fallback value to use if the flag is not available or evaluation fails
  * - **Example**: `false`, `'basic'`, `5`
  * 
+ * ### client (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use. Uses the default client if not provided
+ * - **Example**: `'partner'`
+ * 
  * ## Usage Examples
  * 
  * ### Basic Boolean Flag
@@ -146,6 +168,19 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * </div>
  * ```
  * 
+ * ### Value-to-Class Mapping
+ * ```html
+ * <!-- One class list per variation of a string flag -->
+ * <div [ldClassMap]="{
+ *   flag: 'density',
+ *   classes: { compact: 'd-compact', comfy: ['d-comfy', 'spacious'] },
+ *   default: 'd-normal',
+ *   fallback: 'normal'
+ * }">
+ *   Table
+ * </div>
+ * ```
+ * 
  * ### With Fallback
  * ```html
  * <!-- Provide fallback value for when flag is unavailable -->
@@ -193,7 +228,7 @@ type LdClassNames = string | string[] | undefined;
  */
 interface LdClassIfConfig {
   /** The LaunchDarkly flag key to evaluate */
-  flag: string;
+  flag: LDFlagKey;
   /** CSS class(es) to apply when the condition is met. Can be a string or array of strings */
   class?: string | string[];
   /** CSS class(es) to apply when the condition is not met. Can be a string or array of strings */
@@ -202,21 +237,55 @@ interface LdClassIfConfig {
   value?: LDFlagValue;
   /** Fallback value to use if the flag is not available or evaluation fails */
   fallback?: LDFlagValue;
+  /** Name of the LaunchDarkly client to use. Uses the default client if not provided */
+  client?: string;
 }
+
+/**
+ * Configuration object for the value-to-class mapping mode of the LdClassIfDirective (`ldClassMap`).
+ * 
+ * @example
+ * ```typescript
+ * const density: LdClassMapConfig = {
+ *   flag: 'density',
+ *   classes: { compact: 'd-compact', comfy: 'd-comfy' },
+ *   default: 'd-normal'
+ * };
+ * ```
+ */
+export interface LdClassMapConfig {
+  /** The LaunchDarkly flag key to evaluate */
+  flag: LDFlagKey;
+  /** CSS class(es) by flag value. Non-string values are looked up by their string form, e.g. `'true'` or `'3'` */
+  classes: Record<string, string | string[]>;
+  /** CSS class(es) to apply when the flag value has no entry in `classes` */
+  default?: string | string[];
+  /** Fallback value to use if the flag is not available or evaluation fails */
+  fallback?: LDFlagValue;
+  /** Name of the LaunchDarkly client to use. Uses the default client if not provided */
+  client?: string;
+}
+
 @Directive({
-  selector: '[ldClassIf]'
+  selector: '[ldClassIf],[ldClassMap]',
+  standalone: true
 })
 export class LdClassIfDirective implements OnInit, OnDestroy {
   private subscription?: Subscription;
+  private classMapSubscription?: Subscription;
   private currentFlagKey?: string;
+  private clientName?: string;
   private currentFallback?: LDFlagValue;
   private currentValue?: LDFlagValue;
   private currentClass?: string;
   private currentElseClass?: string;
+  private classMap?: LdClassMapConfig;
+  private mappedClasses = new Set<string>();
   private instanceId = Math.random().toString(36).substr(2, 9);
 
   private elementRef = inject(ElementRef);
   private ldService = inject(LaunchDarklyService);
+  private ldRegistry = inject(LaunchDarklyRegistry);
   private cdr = inject(ChangeDetectorRef);
 
   /**
@@ -224,7 +293,7 @@ export class LdClassIfDirective implements OnInit, OnDestroy {
    * - string: flag key
    * - object: { flag, class?, elseClass?, value?, fallback? }
    */
-  @Input() set ldClassIf(flagKeyOrConfig: string | LdClassIfConfig) {
+  @Input() set ldClassIf(flagKeyOrConfig: LDFlagKey | LdClassIfConfig) {
     // string => just the flag key
     if (typeof flagKeyOrConfig === 'string') {
       this.currentFlagKey = flagKeyOrConfig;
@@ -236,6 +305,7 @@ export class LdClassIfDirective implements OnInit, OnDestroy {
     if (flagKeyOrConfig && typeof flagKeyOrConfig === 'object') {
       const cfg = flagKeyOrConfig as LdClassIfConfig;
       this.currentFlagKey = cfg.flag;
+      this.clientName = cfg.client;
       this.currentFallback = cfg.fallback;
       this.currentValue = cfg.value;
       this.currentClass = Array.isArray(cfg.class) ? cfg.class.join(' ') : cfg.class;
@@ -280,12 +350,44 @@ export class LdClassIfDirective implements OnInit, OnDestroy {
     this.updateSubscription();
   }
 
+  /**
+   * Name of the LaunchDarkly client to use. Uses the default client if not provided.
+   */
+  @Input() set ldClassIfClient(clientName: string | undefined) {
+    this.clientName = clientName;
+    this.updateSubscription();
+  }
+
+  /**
+   * Value-to-class mapping mode: applies the class(es) mapped to the current flag variation
+   */
+  @Input() set ldClassMap(config: LdClassMapConfig | undefined) {
+    this.classMap = config;
+    if (!config) {
+      // leaving the mapping mode, the classes of the last variation go away
+      this.updateMappedClasses([]);
+    }
+    this.updateClassMapSubscription();
+  }
+
   ngOnInit() {
     this.updateSubscription();
+    this.updateClassMapSubscription();
   }
 
   ngOnDestroy() {
     this.subscription?.unsubscribe();
+    this.classMapSubscription?.unsubscribe();
+  }
+
+  /**
+   * Resolves the LaunchDarkly service for a client name.
+   * 
+   * @param clientName - The client of `ldClassIf` or of the mapping config
+   * @returns The named service, or the default service if no client name is set
+   */
+  private resolveService(clientName: string | undefined): LaunchDarklyService {
+    return clientName ? this.ldRegistry.get(clientName) : this.ldService;
   }
 
   /**
@@ -295,6 +397,7 @@ export class LdClassIfDirective implements OnInit, OnDestroy {
   private updateSubscription() {
     // Clean up existing subscription
     this.subscription?.unsubscribe();
+    this.subscription = undefined;
 
     // Only create subscription if we have a flag key and at least one class
     if (!this.currentFlagKey || (!this.currentClass && !this.currentElseClass)) {
@@ -302,12 +405,30 @@ export class LdClassIfDirective implements OnInit, OnDestroy {
     }
 
     // Subscribe to flag changes
-    this.subscription = this.ldService.variation$(this.currentFlagKey, this.currentFallback)
+    this.subscription = this.resolveService(this.clientName).variation$(this.currentFlagKey, this.currentFallback)
       .subscribe(flagValue => {
         this.updateClass(flagValue);
       });
   }
 
+  /**
+   * Updates the subscription of the mapping mode, where every variation has its own class list.
+   * Independent of the `ldClassIf` subscription, so both can be used on the same element.
+   */
+  private updateClassMapSubscription() {
+    this.classMapSubscription?.unsubscribe();
+    this.classMapSubscription = undefined;
+
+    const classMap = this.classMap;
+    if (!classMap?.flag) {
+      return;
+    }
+    this.classMapSubscription = this.resolveService(classMap.client).variation$(classMap.flag, classMap.fallback)
+      .subscribe(flagValue => {
+        this.updateClassMap(classMap, flagValue);
+      });
+  }
+
   /**
    * Updates the CSS classes based on the current flag value.
    * Applies or removes classes based on whether the condition is met.
@@ -328,6 +449,36 @@ export class LdClassIfDirective implements OnInit, OnDestroy {
     this.cdr.markForCheck();
   }
 
+  /**
+   * Applies the class(es) mapped to the flag value, or the default class(es) if the value has no entry.
+   * 
+   * @param config - The mapping configuration
+   * @param flagValue - The current value of the LaunchDarkly flag
+   */
+  private updateClassMap(config: LdClassMapConfig, flagValue: LDFlagValue) {
+    const key = String(flagValue);
+    const classes = config.classes && Object.hasOwn(config.classes, key) ? config.classes[key] : config.default;
+    this.updateMappedClasses(this.toClassList(classes));
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Replaces the mapped classes in one step, keeping the classes shared by the previous and the new list.
+   * 
+   * @param classes - The classes to apply
+   */
+  private updateMappedClasses(classes: string[]) {
+    const next = new Set(classes);
+    const classList = this.elementRef.nativeElement.classList;
+    this.mappedClasses.forEach(cls => {
+      if (!next.has(cls)) {
+        classList.remove(cls);
+      }
+    });
+    next.forEach(cls => classList.add(cls));
+    this.mappedClasses = next;
+  }
+
   /**
    * Determines whether the class should be applied based on the flag value.
    * 
@@ -350,15 +501,8 @@ export class LdClassIfDirective implements OnInit, OnDestroy {
    * @param className - The class name(s) to add. Can be a string or array of strings.
    */
   private addClass(className?: LdClassNames) {
-    if (!className) {
-      return;
-    }
-    const classesArray = Array.isArray(className) ? className : className.split(' ');
-    const classes = classesArray.filter(cls => typeof cls === 'string' && cls.trim());
-    classes.forEach(cls => {
-      if (cls.trim()) {
-        this.elementRef.nativeElement.classList.add(cls.trim());
-      }
+    this.toClassList(className).forEach(cls => {
+      this.elementRef.nativeElement.classList.add(cls);
     });
   }
 
@@ -368,15 +512,24 @@ export class LdClassIfDirective implements OnInit, OnDestroy {
    * @param className - The class name(s) to remove. Can be a string or array of strings.
    */
   private removeClass(className?: LdClassNames) {
+    this.toClassList(className).forEach(cls => {
+      this.elementRef.nativeElement.classList.remove(cls);
+    });
+  }
+
+  /**
+   * Splits class names into a list of trimmed, non-empty classes.
+   * 
+   * @param className - The class name(s). Can be a space separated string or array of strings.
+   * @returns The list of classes
+   */
+  private toClassList(className?: LdClassNames): string[] {
     if (!className) {
-      return;
+      return [];
     }
     const classesArray = Array.isArray(className) ? className : className.split(' ');
-    const classes = classesArray.filter(cls => typeof cls === 'string' && cls.trim());
-    classes.forEach(cls => {
-      if (cls.trim()) {
-        this.elementRef.nativeElement.classList.remove(cls.trim());
-      }
-    });
+    return classesArray
+      .filter(cls => typeof cls === 'string' && cls.trim())
+      .map(cls => cls.trim());
   }
 }
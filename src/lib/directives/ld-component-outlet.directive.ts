@@ -0,0 +1,268 @@
+import { ChangeDetectorRef, ComponentRef, Directive, Input, OnDestroy, OnInit, Type, ViewContainerRef, inject, reflectComponentType } from '@angular/core';
+import { Observable, Subscription, catchError, from, map, of, switchMap } from 'rxjs';
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+import type { LDFlagKey } from '../interfaces/launchdarkly.interface';
+
+/**
+ * A component rendered by {@link LdComponentOutletDirective}: a component type, or a loader such as `() => import('./widget')`
+ */
+export type LdComponentLoader = Type<unknown> | (() => Promise<Type<unknown> | { default: Type<unknown> }>);
+
+/**
+ * Directive that renders a component selected by a LaunchDarkly feature flag.
+ * Similar to Angular's *ngComponentOutlet, but the component is picked from a map of flag values
+ * and swapped when the flag changes.
+ * 
+ * ## Parameters
+ * 
+ * ### ldComponentOutlet (required)
+ * - **Type**: `LDFlagKey` (checked against `LDFlags` in strict templates when augmented)
+ * - **Description**: The LaunchDarkly feature flag key to evaluate
+ * - **Example**: `'checkout-widget'`, `'dashboard-layout'`
+ * 
+ * ### ldComponentOutletComponents (required)
+ * - **Type**: `Record<string, LdComponentLoader>`
+ * - **Description**: Components by flag value, as component types or lazy loaders (`() => import(...)`).
+ *   Non-string flag values are looked up by their string form, e.g. `'true'` for a boolean flag.
+ * - **Example**: `{ classic: ClassicWidgetComponent, modern: () => import('./modern-widget.component') }`
+ * 
+ * ### ldComponentOutletDefault (optional)
+ * - **Type**: `LdComponentLoader`
+ * - **Description**: Component to render when the flag value has no component. If not provided, nothing is rendered.
+ * - **Default**: `undefined`
+ * - **Example**: `ClassicWidgetComponent`
+ * 
+ * ### ldComponentOutletInputs (optional)
+ * - **Type**: `Record<string, unknown>`
+ * - **Description**: Inputs set on whichever component is rendered. Inputs the component doesn't declare are skipped.
+ * - **Default**: `undefined`
+ * - **Example**: `{ cart: cart, currency: 'EUR' }`
+ * 
+ * ### ldComponentOutletFallback (optional)
+ * - **Type**: `any`
+ * - **Description**: Default value to use if the flag is not available or evaluation fails
+ * - **Default**: `undefined`
+ * - **Example**: `'classic'`
+ * 
+ * ### ldComponentOutletClient (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use, as registered with `provideLaunchDarkly({ name })`.
+ *   Uses the default client if not provided.
+ * - **Default**: `undefined`
+ * - **Example**: `'partner'`
+ * 
+ * ## Usage Examples
+ * 
+ * ### Component Types and Lazy Loaders
+ * ```html
+ * <ng-container *ldComponentOutlet="'checkout-widget'; components: widgets; default: classicWidget; inputs: { cart: cart }"></ng-container>
+ * ```
+ * ```typescript
+ * readonly classicWidget = ClassicWidgetComponent;
+ * readonly widgets: Record<string, LdComponentLoader> = {
+ *   classic: ClassicWidgetComponent,
+ *   modern: () => import('./modern-widget.component').then(m => m.ModernWidgetComponent)
+ * };
+ * ```
+ * 
+ * ### Property Binding Syntax
+ * ```html
+ * <ng-container
+ *   [ldComponentOutlet]="'dashboard-layout'"
+ *   [ldComponentOutletComponents]="layouts"
+ *   [ldComponentOutletFallback]="'grid'"
+ *   [ldComponentOutletInputs]="{ widgets: widgets }">
+ * </ng-container>
+ * ```
+ * 
+ * ## Best Practices
+ * 
+ * 1. **Provide a default component**: Use `ldComponentOutletDefault` so something is rendered for unexpected values
+ * 2. **Share one set of inputs**: Give the variant components the same inputs so they can be swapped freely
+ */
+@Directive({
+  selector: '[ldComponentOutlet]',
+  standalone: true
+})
+export class LdComponentOutletDirective implements OnInit, OnDestroy {
+  private subscription?: Subscription;
+  private currentFlagKey?: string;
+  private clientName?: string;
+  private currentFallback?: LDFlagValue;
+  private components: Record<string, LdComponentLoader> = {};
+  private defaultComponent?: LdComponentLoader;
+  private inputs?: Record<string, unknown>;
+  private ref?: ComponentRef<unknown>;
+
+  private viewContainer = inject(ViewContainerRef);
+  private ldService = inject(LaunchDarklyService);
+  private ldRegistry = inject(LaunchDarklyRegistry);
+  private cdr = inject(ChangeDetectorRef);
+
+  /**
+   * The feature flag key to evaluate
+   */
+  @Input() set ldComponentOutlet(flagKey: LDFlagKey) {
+    this.currentFlagKey = flagKey;
+    this.updateSubscription();
+  }
+
+  /**
+   * Components by flag value, as component types or lazy loaders
+   */
+  @Input() set ldComponentOutletComponents(components: Record<string, LdComponentLoader> | undefined) {
+    this.components = components ?? {};
+    this.updateSubscription();
+  }
+
+  /**
+   * Component to render when the flag value has no component
+   */
+  @Input() set ldComponentOutletDefault(component: LdComponentLoader | undefined) {
+    this.defaultComponent = component;
+    this.updateSubscription();
+  }
+
+  /**
+   * Inputs set on the rendered component
+   */
+  @Input() set ldComponentOutletInputs(inputs: Record<string, unknown> | undefined) {
+    this.inputs = inputs;
+    // the rendered component is kept, only its inputs change
+    this.applyInputs();
+  }
+
+  /**
+   * The fallback value to use if the flag is not available or evaluation fails
+   */
+  @Input() set ldComponentOutletFallback(fallback: LDFlagValue) {
+    this.currentFallback = fallback;
+    this.updateSubscription();
+  }
+
+  /**
+   * Name of the LaunchDarkly client to use. Uses the default client if not provided.
+   */
+  @Input() set ldComponentOutletClient(clientName: string | undefined) {
+    this.clientName = clientName;
+    this.updateSubscription();
+  }
+
+  /**
+   * The rendered component, or undefined if no component is rendered
+   */
+  get componentRef(): ComponentRef<unknown> | undefined {
+    return this.ref;
+  }
+
+  ngOnInit() {
+    this.updateSubscription();
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Resolves the LaunchDarkly service for the configured client name.
+   * 
+   * @returns The named service, or the default service if no client name is set
+   */
+  private resolveService(): LaunchDarklyService {
+    return this.clientName ? this.ldRegistry.get(this.clientName) : this.ldService;
+  }
+
+  /**
+   * Updates the subscription to LaunchDarkly flag changes.
+   * Cleans up existing subscription and creates a new one if a flag key is available.
+   */
+  private updateSubscription() {
+    // Clean up existing subscription
+    this.subscription?.unsubscribe();
+
+    // Only create subscription if we have a flag key
+    if (!this.currentFlagKey) {
+      return;
+    }
+
+    // Load the component of each flag value, a pending load is dropped when the flag changes again
+    this.subscription = this.resolveService().variation$(this.currentFlagKey, this.currentFallback).pipe(
+      switchMap(flagValue => this.loadComponent(flagValue))
+    ).subscribe(component => {
+      this.render(component);
+    });
+  }
+
+  /**
+   * Loads the component for a flag value.
+   * 
+   * @param flagValue - The current value of the LaunchDarkly flag
+   * @returns Observable that emits the component type, or undefined if there is none
+   */
+  private loadComponent(flagValue: LDFlagValue): Observable<Type<unknown> | undefined> {
+    const key = String(flagValue);
+    const loader = Object.hasOwn(this.components, key) ? this.components[key] : this.defaultComponent;
+    if (!loader || reflectComponentType(loader as Type<unknown>)) {
+      return of(loader as Type<unknown> | undefined);
+    }
+    return from((loader as () => Promise<unknown>)()).pipe(
+      map(loaded => componentOf(loaded)),
+      catchError(error => {
+        console.error(`[LaunchDarkly] Could not load the component for flag "${this.currentFlagKey}" value "${key}":`, error);
+        return of(undefined);
+      })
+    );
+  }
+
+  /**
+   * Renders a component, replacing the current one unless it is the same component.
+   * 
+   * @param component - The component type to render, or undefined to render nothing
+   */
+  private render(component: Type<unknown> | undefined) {
+    if (this.ref && this.ref.componentType === component) {
+      return;
+    }
+
+    this.viewContainer.clear();
+    this.ref = component ? this.viewContainer.createComponent(component) : undefined;
+    this.applyInputs();
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Sets the shared inputs on the rendered component, skipping inputs it doesn't declare.
+   */
+  private applyInputs() {
+    if (!this.ref || !this.inputs) {
+      return;
+    }
+    const declared = new Set(reflectComponentType(this.ref.componentType)?.inputs.map(input => input.templateName));
+    Object.entries(this.inputs).forEach(([name, value]) => {
+      if (declared.has(name)) {
+        this.ref?.setInput(name, value);
+      }
+    });
+  }
+}
+
+/**
+ * Returns the component of a loaded module: the component itself or the default export of its module.
+ * 
+ * @param loaded - The value the loader resolved to
+ * @returns The component type
+ * 
+ * @throws Will throw an error if the value is neither a standalone component nor a module with a default component export
+ */
+function componentOf(loaded: unknown): Type<unknown> {
+  if (typeof loaded === 'function' && reflectComponentType(loaded as Type<unknown>)) {
+    return loaded as Type<unknown>;
+  }
+  const defaultExport = loaded !== null && typeof loaded === 'object' ? (loaded as { default?: unknown }).default : undefined;
+  if (typeof defaultExport === 'function' && reflectComponentType(defaultExport as Type<unknown>)) {
+    return defaultExport as Type<unknown>;
+  }
+  throw new Error('the loader must resolve to a component or to a module with the component as its default export, e.g. () => import(\'./widget.component\').then(m => m.WidgetComponent)');
+}
@@ -0,0 +1,272 @@
+import { Directive, Input, ElementRef, Renderer2, RendererStyleFlags2, OnInit, OnDestroy, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+import type { LDFlagKey } from '../interfaces/launchdarkly.interface';
+
+/**
+ * Tokens written as CSS custom properties by {@link LdCssVarsDirective}. Nested objects are flattened,
+ * so `{ color: { primary: '#0055ff' } }` becomes `--color-primary`.
+ */
+export interface LdCssTokens {
+  [name: string]: string | number | LdCssTokens;
+}
+
+// characters allowed in values: colors, lengths, numbers, math and var() functions, font names, shadows
+const SAFE_CSS_VALUE = /^[\w\s#%.,+\-*/()'"]*$/;
+// functions that load resources or run code
+const UNSAFE_CSS_FUNCTION = /(url|image|image-set|cross-fade|element|expression|paint|src)\s*\(/i;
+const CSS_VAR_NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Directive that writes the tokens of a JSON feature flag as CSS custom properties.
+ * Useful for theming experiments where colors, spacing or fonts are delivered by a flag.
+ * 
+ * ## Parameters
+ * 
+ * ### ldCssVars (required)
+ * - **Type**: `LDFlagKey` (checked against `LDFlags` in strict templates when augmented)
+ * - **Description**: The LaunchDarkly JSON flag key to evaluate. Its value is a map of tokens, written as
+ *   `--<name>` custom properties. Nested objects are flattened with `-`, names may include the leading `--`.
+ * - **Example**: `'theme-tokens'`
+ * 
+ * ### ldCssVarsFallback (optional)
+ * - **Type**: `LdCssTokens`
+ * - **Description**: Tokens to use if the flag is not available or evaluation fails
+ * - **Default**: `undefined`
+ * - **Example**: `{ 'brand-color': '#0055ff', 'radius': '4px' }`
+ * 
+ * ### ldCssVarsTarget (optional)
+ * - **Type**: `'host' | 'root'`
+ * - **Description**: Where to write the custom properties: the host element, or `document.documentElement`
+ *   so they apply to the whole page
+ * - **Default**: `'host'`
+ * - **Example**: `'root'`
+ * 
+ * ### ldCssVarsPrefix (optional)
+ * - **Type**: `string`
+ * - **Description**: Prefix added to every custom property name
+ * - **Default**: `undefined`
+ * - **Example**: `'theme'` (writes `--theme-brand-color`)
+ * 
+ * ### ldCssVarsClient (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use, as registered with `provideLaunchDarkly({ name })`.
+ *   Uses the default client if not provided.
+ * - **Default**: `undefined`
+ * - **Example**: `'partner'`
+ * 
+ * ## Sanitization
+ * 
+ * Values may only contain letters, digits, whitespace, quotes and `# % . , + - * / ( )`, and no functions that load
+ * resources such as `url()`. Unsafe values and invalid names are skipped with a warning, so a bad flag can't inject
+ * arbitrary CSS. Custom properties that disappear from the flag value are removed, as are all of them on destroy.
+ * 
+ * ## Usage Examples
+ * 
+ * ### Page Theme
+ * ```html
+ * <!-- flag value: { "brand-color": "#0055ff", "radius": "8px", "font": { "body": "'Inter', sans-serif" } } -->
+ * <app-shell ldCssVars="theme-tokens" ldCssVarsTarget="root" ldCssVarsPrefix="theme"></app-shell>
+ * ```
+ * ```css
+ * button { background: var(--theme-brand-color); border-radius: var(--theme-radius); }
+ * body { font-family: var(--theme-font-body); }
+ * ```
+ * 
+ * ### Scoped to a Component
+ * ```html
+ * <section [ldCssVars]="'promo-banner-tokens'" [ldCssVarsFallback]="{ 'banner-bg': '#f5f5f5' }">...</section>
+ * ```
+ */
+@Directive({
+  selector: '[ldCssVars]',
+  standalone: true
+})
+export class LdCssVarsDirective implements OnInit, OnDestroy {
+  private subscription?: Subscription;
+  private currentFlagKey?: string;
+  private clientName?: string;
+  private currentFallback?: LdCssTokens;
+  private target: 'host' | 'root' = 'host';
+  private prefix?: string;
+  private appliedVars = new Map<string, string>();
+
+  private elementRef = inject(ElementRef);
+  private renderer = inject(Renderer2);
+  private document = inject(DOCUMENT);
+  private ldService = inject(LaunchDarklyService);
+  private ldRegistry = inject(LaunchDarklyRegistry);
+
+  /**
+   * The JSON feature flag key to evaluate
+   */
+  @Input() set ldCssVars(flagKey: LDFlagKey) {
+    this.currentFlagKey = flagKey;
+    this.updateSubscription();
+  }
+
+  /**
+   * The tokens to use if the flag is not available or evaluation fails
+   */
+  @Input() set ldCssVarsFallback(fallback: LdCssTokens | undefined) {
+    this.currentFallback = fallback;
+    this.updateSubscription();
+  }
+
+  /**
+   * Where to write the custom properties: the host element or `document.documentElement`
+   */
+  @Input() set ldCssVarsTarget(target: 'host' | 'root' | undefined) {
+    // the variables move to the new target
+    this.removeVars();
+    this.target = target ?? 'host';
+    this.updateSubscription();
+  }
+
+  /**
+   * Prefix added to every custom property name
+   */
+  @Input() set ldCssVarsPrefix(prefix: string | undefined) {
+    this.prefix = prefix;
+    this.updateSubscription();
+  }
+
+  /**
+   * Name of the LaunchDarkly client to use. Uses the default client if not provided.
+   */
+  @Input() set ldCssVarsClient(clientName: string | undefined) {
+    this.clientName = clientName;
+    this.updateSubscription();
+  }
+
+  ngOnInit() {
+    this.updateSubscription();
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+    this.removeVars();
+  }
+
+  /**
+   * Resolves the LaunchDarkly service for the configured client name.
+   * 
+   * @returns The named service, or the default service if no client name is set
+   */
+  private resolveService(): LaunchDarklyService {
+    return this.clientName ? this.ldRegistry.get(this.clientName) : this.ldService;
+  }
+
+  /**
+   * Updates the subscription to LaunchDarkly flag changes.
+   * Cleans up existing subscription and creates a new one if a flag key is available.
+   */
+  private updateSubscription() {
+    // Clean up existing subscription
+    this.subscription?.unsubscribe();
+
+    // Only create subscription if we have a flag key
+    if (!this.currentFlagKey) {
+      return;
+    }
+
+    // Subscribe to flag changes
+    this.subscription = this.resolveService().variation$(this.currentFlagKey, this.currentFallback)
+      .subscribe(flagValue => {
+        this.updateVars(flagValue);
+      });
+  }
+
+  /**
+   * Writes the tokens of the flag value as custom properties and removes the ones that disappeared.
+   * 
+   * @param flagValue - The current value of the LaunchDarkly flag
+   */
+  private updateVars(flagValue: LDFlagValue) {
+    const vars = new Map<string, string>();
+    if (flagValue && typeof flagValue === 'object' && !Array.isArray(flagValue)) {
+      this.collectVars(flagValue, this.prefix ? [this.prefix] : [], vars);
+    } else if (flagValue !== undefined && flagValue !== null) {
+      console.warn(`[LaunchDarkly] ldCssVars expects an object for flag "${this.currentFlagKey}"`);
+    }
+
+    const element = this.targetElement();
+    this.appliedVars.forEach((_, name) => {
+      if (!vars.has(name)) {
+        this.renderer.removeStyle(element, name, RendererStyleFlags2.DashCase);
+      }
+    });
+    vars.forEach((value, name) => {
+      if (this.appliedVars.get(name) !== value) {
+        this.renderer.setStyle(element, name, value, RendererStyleFlags2.DashCase);
+      }
+    });
+    this.appliedVars = vars;
+  }
+
+  /**
+   * Flattens tokens into custom property names and values, skipping invalid names and unsafe values.
+   * 
+   * @param tokens - The tokens to flatten
+   * @param path - The name segments of the parent tokens
+   * @param vars - The custom properties collected so far
+   */
+  private collectVars(tokens: LdCssTokens, path: string[], vars: Map<string, string>) {
+    Object.entries(tokens).forEach(([key, value]) => {
+      const segments = [...path, key.replace(/^--/, '')];
+      const name = `--${segments.join('-')}`;
+      if (!segments.every(segment => CSS_VAR_NAME.test(segment))) {
+        console.warn(`[LaunchDarkly] ldCssVars skipped an invalid custom property name: "${name}"`);
+      } else if (value && typeof value === 'object') {
+        this.collectVars(value, segments, vars);
+      } else if (typeof value === 'number' || (typeof value === 'string' && isSafeCssValue(value))) {
+        vars.set(name, String(value));
+      } else {
+        console.warn(`[LaunchDarkly] ldCssVars skipped an unsafe value for "${name}"`);
+      }
+    });
+  }
+
+  /**
+   * Removes all custom properties written by this directive.
+   */
+  private removeVars() {
+    const element = this.targetElement();
+    this.appliedVars.forEach((_, name) => this.renderer.removeStyle(element, name, RendererStyleFlags2.DashCase));
+    this.appliedVars.clear();
+  }
+
+  /**
+   * Returns the element that receives the custom properties.
+   * 
+   * @returns The host element, or the document element for the `root` target
+   */
+  private targetElement() {
+    return this.target === 'root' ? this.document.documentElement : this.elementRef.nativeElement;
+  }
+}
+
+/**
+ * Checks that a value only uses safe characters, has balanced parentheses and quotes,
+ * and doesn't call functions that load resources or run code.
+ * 
+ * @param value - The custom property value
+ * @returns true if the value is safe to write
+ */
+function isSafeCssValue(value: string): boolean {
+  if (!SAFE_CSS_VALUE.test(value) || UNSAFE_CSS_FUNCTION.test(value)) {
+    return false;
+  }
+  let depth = 0;
+  for (const char of value) {
+    depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    if (depth < 0) {
+      return false;
+    }
+  }
+  const quotes = (quote: string) => value.split(quote).length - 1;
+  return depth === 0 && quotes('"') % 2 === 0 && quotes("'") % 2 === 0;
+}
@@ -1,7 +1,10 @@
 import { Directive, Input, TemplateRef, ViewContainerRef, OnInit, OnDestroy, ChangeDetectorRef, inject } from '@angular/core';
-import { Subscription } from 'rxjs';
+import { Subscription, switchMap } from 'rxjs';
 import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import { LdLoadingState } from './ld-loading-state';
 import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+import type { LDFlagKey } from '../interfaces/launchdarkly.interface';
 
 /**
  * Universal structural directive for LaunchDarkly feature flags.
@@ -11,7 +14,7 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * ## Parameters
  * 
  * ### ldFlag (required)
- * - **Type**: `string`
+ * - **Type**: `LDFlagKey` (checked against `LDFlags` in strict templates when augmented)
  * - **Description**: The LaunchDarkly feature flag key to evaluate
  * - **Example**: `'new-feature'`, `'welcome-message'`, `'user-config'`
  * 
@@ -35,6 +38,26 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * - **Example**: `#premiumUnavailable`
  * 
  * 
+ * ### ldFlagLoading (optional)
+ * - **Type**: `TemplateRef<any>`
+ * - **Description**: Template to show until LaunchDarkly is ready or the loading timeout expires,
+ *   instead of rendering the fallback right away
+ * - **Default**: `undefined`
+ * - **Example**: `#heroPlaceholder`
+ * 
+ * ### ldFlagLoadingTimeout (optional)
+ * - **Type**: `number`
+ * - **Description**: Maximum time to show the loading template in milliseconds
+ * - **Default**: `500`
+ * - **Example**: `1000`
+ * 
+ * ### ldFlagClient (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use, as registered with `provideLaunchDarkly({ name })`.
+ *   Uses the default client if not provided.
+ * - **Default**: `undefined`
+ * - **Example**: `'partner'`
+ * 
  * ## Template Context Variables
  * 
  * The directive automatically injects the following variables into your template context:
@@ -123,25 +146,38 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * 2. **Use template context variables**: Leverage the injected variables (`flagValue`, `isMatch`) for better template logic
  */
 @Directive({
-  selector: '[ldFlag]'
+  selector: '[ldFlag]',
+  standalone: true
 })
 export class LdFlagDirective implements OnInit, OnDestroy {
   private subscription?: Subscription;
   private currentFlagKey?: string;
+  private clientName?: string;
   private currentFallback?: LDFlagValue;
   private currentValue?: LDFlagValue;
   private elseTemplate?: TemplateRef<unknown>;
+  private loadingTemplate?: TemplateRef<unknown>;
+  private loadingTimeout?: number;
   private instanceId = Math.random().toString(36).substr(2, 9);
 
   private templateRef = inject(TemplateRef<unknown>);
   private viewContainer = inject(ViewContainerRef);
   private ldService = inject(LaunchDarklyService);
+  private ldRegistry = inject(LaunchDarklyRegistry);
   private cdr = inject(ChangeDetectorRef);
+  private loadingState = new LdLoadingState(loading => {
+    // the view is updated right after loading, so only the loading template is rendered here
+    this.viewContainer.clear();
+    if (loading && this.loadingTemplate) {
+      this.viewContainer.createEmbeddedView(this.loadingTemplate);
+    }
+    this.cdr.markForCheck();
+  });
 
   /**
    * The feature flag key to evaluate
    */
-  @Input() set ldFlag(flagKey: string) {
+  @Input() set ldFlag(flagKey: LDFlagKey) {
     this.currentFlagKey = flagKey;
     this.updateSubscription();
   }
@@ -171,6 +207,29 @@ export class LdFlagDirective implements OnInit, OnDestroy {
     this.updateSubscription();
   }
 
+  /**
+   * Template to show until LaunchDarkly is ready or the loading timeout expires
+   */
+  @Input() set ldFlagLoading(template: TemplateRef<unknown> | undefined) {
+    this.loadingTemplate = template;
+    this.updateSubscription();
+  }
+
+  /**
+   * Maximum time to show the loading template in milliseconds (default: 500ms)
+   */
+  @Input() set ldFlagLoadingTimeout(timeoutMs: number | undefined) {
+    this.loadingTimeout = timeoutMs;
+    this.updateSubscription();
+  }
+
+  /**
+   * Name of the LaunchDarkly client to use. Uses the default client if not provided.
+   */
+  @Input() set ldFlagClient(clientName: string | undefined) {
+    this.clientName = clientName;
+    this.updateSubscription();
+  }
 
   ngOnInit() {
     this.updateSubscription();
@@ -180,6 +239,15 @@ export class LdFlagDirective implements OnInit, OnDestroy {
     this.subscription?.unsubscribe();
   }
 
+  /**
+   * Resolves the LaunchDarkly service for the configured client name.
+   * 
+   * @returns The named service, or the default service if no client name is set
+   */
+  private resolveService(): LaunchDarklyService {
+    return this.clientName ? this.ldRegistry.get(this.clientName) : this.ldService;
+  }
+
   /**
    * Updates the subscription to LaunchDarkly flag changes.
    * Cleans up existing subscription and creates a new one if a flag key is available.
@@ -193,11 +261,14 @@ export class LdFlagDirective implements OnInit, OnDestroy {
       return;
     }
 
-    // Subscribe to flag changes
-    this.subscription = this.ldService.variation$(this.currentFlagKey, this.currentFallback)
-      .subscribe(flagValue => {
-        this.updateView(flagValue);
-      });
+    // Subscribe to flag changes once LaunchDarkly is ready
+    const service = this.resolveService();
+    const flagKey = this.currentFlagKey;
+    this.subscription = this.loadingState.whenReady(service, this.loadingTemplate, this.loadingTimeout).pipe(
+      switchMap(() => service.variation$(flagKey, this.currentFallback))
+    ).subscribe(flagValue => {
+      this.updateView(flagValue);
+    });
   }
 
   /**
@@ -1,7 +1,11 @@
 import { Directive, Input, TemplateRef, ViewContainerRef, OnInit, OnDestroy, ChangeDetectorRef, inject } from '@angular/core';
-import { Subscription } from 'rxjs';
+import { Subscription, map, switchMap } from 'rxjs';
 import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import { LdLoadingState } from './ld-loading-state';
 import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+import type { LDFlagCondition, LDFlagConditions, LDFlagExpression, LDFlagKey, LDFlagOperator, LDFlagPredicate } from '../interfaces/launchdarkly.interface';
+import { matchesCondition } from '../utils/flag-conditions';
 
 /**
  * Structural directive that conditionally renders content based on a LaunchDarkly feature flag.
@@ -9,10 +13,19 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * 
  * ## Parameters
  * 
- * ### ldIf (required)
- * - **Type**: `string`
- * - **Description**: The LaunchDarkly feature flag key to evaluate
- * - **Example**: `'new-feature'`, `'user-tier'`, `'max-items'`
+ * ### ldIf (required unless ldIfAll or ldIfAny is used)
+ * - **Type**: `LDFlagKey | LDFlagExpression` (keys are checked against `LDFlags` in strict templates when augmented)
+ * - **Description**: The LaunchDarkly feature flag key to evaluate, or an expression combining conditions on several
+ *   flags with `all` or `any`
+ * - **Example**: `'new-feature'`, `'user-tier'`, `{ all: { 'new-nav': true, 'kill-switch-nav': false } }`
+ * 
+ * ### ldIfAll / ldIfAny (optional)
+ * - **Type**: `LDFlagConditions`
+ * - **Description**: Conditions on several flags, of which all (or any) must be met. Either the expected values by flag
+ *   key, or a list of conditions (`{ flag, operator, value, path, predicate, fallback }`). Shorthand for
+ *   `ldIf="{ all: conditions }"`; `ldIfFallback`, `ldIfValue`, `ldIfOperator` and `ldIfPath` don't apply.
+ * - **Default**: `undefined`
+ * - **Example**: `{ 'new-nav': true, 'beta-user': true }`, `[{ flag: 'max-items', operator: 'gte', value: 10 }]`
  * 
  * ### ldIfFallback (optional)
  * - **Type**: `any`
@@ -27,12 +40,46 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * - **Default**: `undefined`
  * - **Example**: `'premium'`, `10`, `true`
  * 
+ * ### ldIfOperator (optional)
+ * - **Type**: `LDFlagOperator | LDFlagCondition | LDFlagPredicate`
+ * - **Description**: How to compare the flag value with `ldIfValue`: an operator (`'in'`, `'notIn'`, `'gt'`, `'gte'`,
+ *   `'lt'`, `'lte'`, `'matches'`, `'deepEqual'`, `'semverGt'`, ...), a predicate function, or a condition object
+ *   combining operator, value, path and predicate
+ * - **Default**: `'eq'` (strict equality, or truthiness when no value is provided)
+ * - **Example**: `'gte'`, `{ operator: 'in', value: ['pro', 'enterprise'] }`, `isBetaTier`
+ * 
+ * ### ldIfPath (optional)
+ * - **Type**: `string`
+ * - **Description**: Path into an object flag to compare instead of the whole value (dot notation and array indexes)
+ * - **Default**: `undefined`
+ * - **Example**: `'limits.seats'`, `'$.tiers[0].name'`
+ * 
  * ### ldIfElse (optional)
  * - **Type**: `TemplateRef<any>`
  * - **Description**: Template to show when the condition is false
  * - **Default**: `undefined`
  * - **Example**: `#premiumUnavailable`
  * 
+ * ### ldIfLoading (optional)
+ * - **Type**: `TemplateRef<any>`
+ * - **Description**: Template to show until LaunchDarkly is ready or the loading timeout expires,
+ *   instead of rendering the fallback right away
+ * - **Default**: `undefined`
+ * - **Example**: `#heroPlaceholder`
+ * 
+ * ### ldIfLoadingTimeout (optional)
+ * - **Type**: `number`
+ * - **Description**: Maximum time to show the loading template in milliseconds
+ * - **Default**: `500`
+ * - **Example**: `1000`
+ * 
+ * ### ldIfClient (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use, as registered with `provideLaunchDarkly({ name })`.
+ *   Uses the default client if not provided.
+ * - **Default**: `undefined`
+ * - **Example**: `'partner'`
+ * 
  * ## Usage Examples
  * 
  * ### Basic Boolean Flag
@@ -91,32 +138,99 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * </div>
  * ```
  * 
+ * ### Operators
+ * ```html
+ * <!-- Show content when 'max-items' is at least 10 -->
+ * <div *ldIf="'max-items'; fallback: 5; operator: 'gte'; value: 10">...</div>
+ * 
+ * <!-- Show content when 'user-tier' is one of several values -->
+ * <div *ldIf="'user-tier'; operator: 'in'; value: ['pro', 'enterprise']">...</div>
+ * 
+ * <!-- Show content when the 'min-app-version' flag is at least 2.0.0 -->
+ * <div *ldIf="'min-app-version'; operator: 'semverGte'; value: '2.0.0'">...</div>
+ * 
+ * <!-- Compare a field of a JSON flag -->
+ * <div *ldIf="'plan-config'; path: 'limits.seats'; operator: 'gt'; value: 5">...</div>
+ * 
+ * <!-- Use a predicate -->
+ * <div *ldIf="'allowed-regions'; operator: includesCurrentRegion">...</div>
+ * ```
+ * 
+ * ### Multiple Flags
+ * ```html
+ * <!-- Show content when 'new-nav' and 'beta-user' are on and 'kill-switch-nav' is off -->
+ * <nav *ldIfAll="{ 'new-nav': true, 'beta-user': true, 'kill-switch-nav': false }">...</nav>
+ * 
+ * <!-- The expression form supports else and loading templates with the * syntax -->
+ * <nav *ldIf="{ any: [{ flag: 'user-tier', operator: 'in', value: ['pro', 'enterprise'] }, { flag: 'beta-user', value: true }] }; else: classicNav">...</nav>
+ * ```
+ * 
  * ## Best Practices
  * 
  * 1. **Always provide a fallback**: Use `ldIfFallback` to ensure your app works when LaunchDarkly is unavailable
  * 2. **Provide else templates**: Use `ldIfElse` to show alternative content when conditions aren't met
  */
 @Directive({
-  selector: '[ldIf]'
+  selector: '[ldIf],[ldIfAll],[ldIfAny]',
+  standalone: true
 })
 export class LdIfDirective implements OnInit, OnDestroy {
   private subscription?: Subscription;
   private currentFlagKey?: string;
+  private currentExpression?: LDFlagExpression;
+  private clientName?: string;
   private currentFallback?: LDFlagValue;
   private currentValue?: LDFlagValue;
+  private currentCondition?: LDFlagCondition;
+  private currentPath?: string;
   private elseTemplate?: TemplateRef<unknown>;
+  private loadingTemplate?: TemplateRef<unknown>;
+  private loadingTimeout?: number;
   private instanceId = Math.random().toString(36).substr(2, 9);
 
   private templateRef = inject(TemplateRef<unknown>);
   private viewContainer = inject(ViewContainerRef);
   private ldService = inject(LaunchDarklyService);
+  private ldRegistry = inject(LaunchDarklyRegistry);
   private cdr = inject(ChangeDetectorRef);
+  private loadingState = new LdLoadingState(loading => {
+    // the view is updated right after loading, so only the loading template is rendered here
+    this.viewContainer.clear();
+    if (loading && this.loadingTemplate) {
+      this.viewContainer.createEmbeddedView(this.loadingTemplate);
+    }
+    this.cdr.markForCheck();
+  });
+
+  /**
+   * The feature flag key to evaluate, or an expression combining conditions on several flags
+   */
+  @Input() set ldIf(flagKey: LDFlagKey | LDFlagExpression) {
+    if (typeof flagKey === 'string') {
+      this.currentFlagKey = flagKey;
+      this.currentExpression = undefined;
+    } else {
+      this.currentFlagKey = undefined;
+      this.currentExpression = flagKey;
+    }
+    this.updateSubscription();
+  }
+
+  /**
+   * Conditions on several flags that must all be met
+   */
+  @Input() set ldIfAll(conditions: LDFlagConditions) {
+    this.currentFlagKey = undefined;
+    this.currentExpression = { all: conditions };
+    this.updateSubscription();
+  }
 
   /**
-   * The feature flag key to evaluate
+   * Conditions on several flags of which at least one must be met
    */
-  @Input() set ldIf(flagKey: string) {
-    this.currentFlagKey = flagKey;
+  @Input() set ldIfAny(conditions: LDFlagConditions) {
+    this.currentFlagKey = undefined;
+    this.currentExpression = { any: conditions };
     this.updateSubscription();
   }
 
@@ -137,6 +251,29 @@ export class LdIfDirective implements OnInit, OnDestroy {
     this.updateSubscription();
   }
 
+  /**
+   * How to compare the flag value with `ldIfValue`: an operator, a predicate, or a condition object.
+   * Defaults to strict equality, or a truthiness check when no value is provided.
+   */
+  @Input() set ldIfOperator(operator: LDFlagOperator | LDFlagCondition | LDFlagPredicate | undefined) {
+    if (typeof operator === 'string') {
+      this.currentCondition = { operator };
+    } else if (typeof operator === 'function') {
+      this.currentCondition = { predicate: operator };
+    } else {
+      this.currentCondition = operator;
+    }
+    this.updateSubscription();
+  }
+
+  /**
+   * Path into an object flag to compare instead of the whole value, e.g. `'limits.seats'`
+   */
+  @Input() set ldIfPath(path: string | undefined) {
+    this.currentPath = path;
+    this.updateSubscription();
+  }
+
   /**
    * Template to show when the condition is false
    */
@@ -145,6 +282,30 @@ export class LdIfDirective implements OnInit, OnDestroy {
     this.updateSubscription();
   }
 
+  /**
+   * Template to show until LaunchDarkly is ready or the loading timeout expires
+   */
+  @Input() set ldIfLoading(template: TemplateRef<unknown> | undefined) {
+    this.loadingTemplate = template;
+    this.updateSubscription();
+  }
+
+  /**
+   * Maximum time to show the loading template in milliseconds (default: 500ms)
+   */
+  @Input() set ldIfLoadingTimeout(timeoutMs: number | undefined) {
+    this.loadingTimeout = timeoutMs;
+    this.updateSubscription();
+  }
+
+  /**
+   * Name of the LaunchDarkly client to use. Uses the default client if not provided.
+   */
+  @Input() set ldIfClient(clientName: string | undefined) {
+    this.clientName = clientName;
+    this.updateSubscription();
+  }
+
   ngOnInit() {
     this.updateSubscription();
   }
@@ -153,6 +314,15 @@ export class LdIfDirective implements OnInit, OnDestroy {
     this.subscription?.unsubscribe();
   }
 
+  /**
+   * Resolves the LaunchDarkly service for the configured client name.
+   * 
+   * @returns The named service, or the default service if no client name is set
+   */
+  private resolveService(): LaunchDarklyService {
+    return this.clientName ? this.ldRegistry.get(this.clientName) : this.ldService;
+  }
+
   /**
    * Updates the subscription to LaunchDarkly flag changes.
    * Cleans up existing subscription and creates a new one if a flag key is available.
@@ -161,17 +331,28 @@ export class LdIfDirective implements OnInit, OnDestroy {
     // Clean up existing subscription
     this.subscription?.unsubscribe();
 
-    // Only create subscription if we have a flag key
-    if (!this.currentFlagKey) {
+    // Only create subscription if we have a flag key or an expression
+    if (!this.currentFlagKey && !this.currentExpression) {
       return;
     }
 
-    // Subscribe to flag changes
-    this.subscription = this.ldService.variation$(this.currentFlagKey, this.currentFallback)
-      .subscribe(flagValue => {
-        const shouldShow = this.shouldShowContent(flagValue);
-        this.updateView(shouldShow);
-      });
+    // Subscribe to flag changes once LaunchDarkly is ready
+    const service = this.resolveService();
+    const flagKey = this.currentFlagKey;
+    const expression = this.currentExpression;
+    this.subscription = this.loadingState.whenReady(service, this.loadingTemplate, this.loadingTimeout).pipe(
+      switchMap(() => {
+        if (expression) {
+          // one combined stream for all flags of the expression
+          return 'all' in expression ? service.evaluateAll$(expression.all) : service.evaluateAll$(expression.any, 'any');
+        }
+        return service.variation$(flagKey as string, this.currentFallback).pipe(
+          map(flagValue => this.shouldShowContent(flagValue))
+        );
+      })
+    ).subscribe(shouldShow => {
+      this.updateView(shouldShow);
+    });
   }
 
   /**
@@ -181,13 +362,12 @@ export class LdIfDirective implements OnInit, OnDestroy {
    * @returns true if the content should be shown, false otherwise
    */
   private shouldShowContent(flagValue: LDFlagValue): boolean {
-    // If a specific value is provided, check for exact match
-    if (this.currentValue !== undefined) {
-      return flagValue === this.currentValue;
-    }
-    
-    // Otherwise, check if flag value is truthy
-    return Boolean(flagValue);
+    // Without an operator or value, this checks for exact match or truthiness
+    return matchesCondition(flagValue, {
+      value: this.currentValue,
+      path: this.currentPath,
+      ...this.currentCondition
+    });
   }
 
   /**
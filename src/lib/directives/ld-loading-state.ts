@@ -0,0 +1,57 @@
+import { TemplateRef } from '@angular/core';
+import { Observable, of, take, tap } from 'rxjs';
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { DEFAULT_LD_CONFIG } from '../interfaces/launchdarkly.interface';
+
+/**
+ * The loading state of the directives with a loading template (ldIf, ldFlag and ldSwitch).
+ * The loading template is shown until LaunchDarkly is ready or the loading timeout expires, and only for the first
+ * evaluation: later changes of the inputs are evaluated right away.
+ */
+export class LdLoadingState {
+  private done = false;
+  private isLoading = false;
+
+  /**
+   * @param onChange - Called when the loading template has to be shown (true) or removed (false)
+   */
+  constructor(private onChange: (loading: boolean) => void) {}
+
+  /**
+   * Whether the loading template is shown
+   */
+  get loading(): boolean {
+    return this.isLoading;
+  }
+
+  /**
+   * Starts an evaluation, showing the loading template while LaunchDarkly isn't ready.
+   * An evaluation that doesn't need to wait removes a loading template that is still shown.
+   * 
+   * @param service - The LaunchDarkly service to wait for
+   * @param template - The loading template, nothing is waited for without one
+   * @param timeoutMs - Maximum time to show the loading template in milliseconds (default: 500ms)
+   * @returns Observable that emits once evaluation can start
+   */
+  whenReady(service: LaunchDarklyService, template: TemplateRef<unknown> | undefined, timeoutMs: number | undefined): Observable<boolean> {
+    if (!template || this.done || service.isInitialized()) {
+      this.setLoading(false);
+      return of(true);
+    }
+    this.setLoading(true);
+    return service.waitUntilReady$(timeoutMs ?? DEFAULT_LD_CONFIG.timeout ?? 500).pipe(
+      take(1),
+      tap(() => {
+        this.done = true;
+        this.setLoading(false);
+      })
+    );
+  }
+
+  private setLoading(loading: boolean) {
+    if (loading !== this.isLoading) {
+      this.isLoading = loading;
+      this.onChange(loading);
+    }
+  }
+}
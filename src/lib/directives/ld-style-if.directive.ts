@@ -1,7 +1,9 @@
 import { Directive, Input, ElementRef, OnInit, OnDestroy, ChangeDetectorRef, inject } from '@angular/core';
 import { Subscription } from 'rxjs';
 import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
 import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+import type { LDFlagKey } from '../interfaces/launchdarkly.interface';
 
 /**
  * Directive for conditionally applying inline CSS styles based on LaunchDarkly feature flags.
@@ -10,7 +12,7 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * ## Parameters
  * 
  * ### ldStyleIf (required)
- * - **Type**: `string | LdStyleIfConfig`
+ * - **Type**: `LDFlagKey | LdStyleIfConfig`
  * - **Description**: The LaunchDarkly flag key or configuration object
  * - **Examples**: 
  *   - `'theme'` (string)
@@ -43,12 +45,19 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * - **Default**: `undefined`
  * - **Example**: `{ backgroundColor: '#e9ecef', color: '#495057' }`
  * 
+ * ### ldStyleIfClient (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use, as registered with `provideLaunchDarkly({ name })`.
+ *   Uses the default client if not provided.
+ * - **Default**: `undefined`
+ * - **Example**: `'partner'`
+ * 
  * ## Configuration Object Properties
  * 
  * When using the object syntax for `ldStyleIf`, you can provide a `LdStyleIfConfig` object with the following properties:
  * 
  * ### flag (required)
- * - **Type**: `string`
+ * - **Type**: `LDFlagKey`
  * - **Description**: The LaunchDarkly flag key to evaluate
  * - **Example**: `'theme'`, `'user-tier'`, `'premium-features'`
  * 
@@ -72,6 +81,11 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * - **Description**: Fallback value to use if the flag is not available or evaluation fails
  * - **Example**: `false`, `'light'`, `5`
  * 
+ * ### client (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use. Uses the default client if not provided
+ * - **Example**: `'partner'`
+ * 
  * ## Usage Examples
  * 
  * ### Basic Boolean Flag
@@ -203,7 +217,7 @@ type LdStyles = Record<string, string> | undefined;
  */
 interface LdStyleIfConfig {
   /** The LaunchDarkly flag key to evaluate */
-  flag: string;
+  flag: LDFlagKey;
   /** CSS styles to apply when the condition is met */
   style?: Record<string, string>;   
   /** CSS styles to apply when the condition is not met */
@@ -212,13 +226,17 @@ interface LdStyleIfConfig {
   value?: LDFlagValue;
   /** Fallback value to use if the flag is not available or evaluation fails */
   fallback?: LDFlagValue;
+  /** Name of the LaunchDarkly client to use. Uses the default client if not provided */
+  client?: string;
 }
 @Directive({
-  selector: '[ldStyleIf]'
+  selector: '[ldStyleIf]',
+  standalone: true
 })
 export class LdStyleIfDirective implements OnInit, OnDestroy {
   private subscription?: Subscription;
   private currentFlagKey?: string;
+  private clientName?: string;
   private currentFallback?: LDFlagValue;
   private currentValue?: LDFlagValue;
   private currentStyles?: Record<string, string>;
@@ -227,6 +245,7 @@ export class LdStyleIfDirective implements OnInit, OnDestroy {
 
   private elementRef = inject(ElementRef);
   private ldService = inject(LaunchDarklyService);
+  private ldRegistry = inject(LaunchDarklyRegistry);
   private cdr = inject(ChangeDetectorRef);
 
   /**
@@ -234,7 +253,7 @@ export class LdStyleIfDirective implements OnInit, OnDestroy {
    * - string: flag key
    * - object: { flag, style?, elseStyle?, value?, fallback? }
    */
-  @Input() set ldStyleIf(flagKeyOrConfig: string | LdStyleIfConfig) {
+  @Input() set ldStyleIf(flagKeyOrConfig: LDFlagKey | LdStyleIfConfig) {
     // string: just set the flag key
     if (typeof flagKeyOrConfig === 'string') {
       this.currentFlagKey = flagKeyOrConfig;
@@ -246,6 +265,7 @@ export class LdStyleIfDirective implements OnInit, OnDestroy {
     if (flagKeyOrConfig && typeof flagKeyOrConfig === 'object') {
       const cfg = flagKeyOrConfig as LdStyleIfConfig;
       this.currentFlagKey = cfg.flag;
+      this.clientName = cfg.client;
       this.currentFallback = cfg.fallback;
       this.currentValue = cfg.value;
       this.currentStyles = cfg.style;
@@ -296,6 +316,14 @@ export class LdStyleIfDirective implements OnInit, OnDestroy {
     this.updateSubscription();
   }
 
+  /**
+   * Name of the LaunchDarkly client to use. Uses the default client if not provided.
+   */
+  @Input() set ldStyleIfClient(clientName: string | undefined) {
+    this.clientName = clientName;
+    this.updateSubscription();
+  }
+
   ngOnInit() {
     this.updateSubscription();
   }
@@ -304,6 +332,15 @@ export class LdStyleIfDirective implements OnInit, OnDestroy {
     this.subscription?.unsubscribe();
   }
 
+  /**
+   * Resolves the LaunchDarkly service for the configured client name.
+   * 
+   * @returns The named service, or the default service if no client name is set
+   */
+  private resolveService(): LaunchDarklyService {
+    return this.clientName ? this.ldRegistry.get(this.clientName) : this.ldService;
+  }
+
   /**
    * Updates the subscription to LaunchDarkly flag changes.
    * Cleans up existing subscription and creates a new one if conditions are met.
@@ -318,7 +355,7 @@ export class LdStyleIfDirective implements OnInit, OnDestroy {
     }
 
     // Subscribe to flag changes
-    this.subscription = this.ldService.variation$(this.currentFlagKey, this.currentFallback)
+    this.subscription = this.resolveService().variation$(this.currentFlagKey, this.currentFallback)
       .subscribe(flagValue => {
         this.updateStyles(flagValue);
       });
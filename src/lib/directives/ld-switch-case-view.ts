@@ -0,0 +1,68 @@
+import { EmbeddedViewRef, TemplateRef, ViewContainerRef } from '@angular/core';
+import type { LdSwitchDirective } from './ld-switch.directive';
+
+/**
+ * The view of an ldSwitch case, shared by LdSwitchCaseDirective and LdSwitchDefaultDirective.
+ * Shows and hides the case template, and keeps the hidden view when the switch is in keep-alive mode.
+ */
+export class LdSwitchCaseView {
+  private view?: EmbeddedViewRef<unknown>;
+  private attached = false;
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private ldSwitch: LdSwitchDirective
+  ) {}
+
+  /**
+   * Shows the case content, reattaching a kept view or creating an embedded view
+   */
+  show() {
+    if (this.attached) {
+      return;
+    }
+    if (this.view) {
+      this.viewContainer.insert(this.view);
+    } else {
+      this.view = this.viewContainer.createEmbeddedView(this.templateRef);
+    }
+    this.attached = true;
+  }
+
+  /**
+   * Hides the case content. Detaches the view in keep-alive mode, otherwise destroys it.
+   */
+  hide() {
+    if (!this.attached) {
+      return;
+    }
+    if (this.ldSwitch.keepAlive) {
+      this.viewContainer.detach();
+    } else {
+      this.viewContainer.clear();
+      this.view = undefined;
+    }
+    this.attached = false;
+  }
+
+  /**
+   * Destroys the view kept by keep-alive mode while the case is hidden
+   */
+  release() {
+    if (!this.attached) {
+      this.view?.destroy();
+      this.view = undefined;
+    }
+  }
+
+  /**
+   * Renders a template at the position of the case, used for the loading template of the switch
+   * 
+   * @param template - The template to render
+   * @returns The rendered view
+   */
+  render(template: TemplateRef<unknown>): EmbeddedViewRef<unknown> {
+    return this.viewContainer.createEmbeddedView(template);
+  }
+}
@@ -1,5 +1,6 @@
-import { Directive, Input, TemplateRef, ViewContainerRef, OnInit, OnDestroy, inject } from '@angular/core';
+import { Directive, EmbeddedViewRef, Input, TemplateRef, ViewContainerRef, OnInit, OnDestroy, inject } from '@angular/core';
 import { LdSwitchDirective } from './ld-switch.directive';
+import { LdSwitchCaseView } from './ld-switch-case-view';
 import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
 
 /**
@@ -10,9 +11,11 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  * ## Parameters
  * 
  * ### ldSwitchCase (required)
- * - **Type**: `LDFlagValue`
- * - **Description**: The value to match against the LaunchDarkly flag value
- * - **Example**: `'premium'`, `'dark'`, `5`, `true`, `{enabled: true}`
+ * - **Type**: `LDFlagValue | LDFlagValue[] | LDFlagPredicate`
+ * - **Description**: The value to match against the LaunchDarkly flag value. An array matches any of its values,
+ *   objects are compared with deep equality and a function is called with the flag value as a predicate.
+ *   To match an array flag value, wrap it in an array.
+ * - **Example**: `'premium'`, `5`, `true`, `{enabled: true}`, `['pro', 'enterprise']`, `isTrialTier`
  * 
  * ## Usage Examples
  * 
@@ -184,19 +187,35 @@ import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
  *   </ng-template>
  * </ng-container>
  * ```
+ * 
+ * ### Multiple Values and Predicates
+ * ```html
+ * <ng-container [ldSwitch]="'user-tier'" [ldSwitchFallback]="'basic'">
+ *   <ng-template [ldSwitchCase]="['pro', 'enterprise']">
+ *     <div class="team-features">Team features</div>
+ *   </ng-template>
+ *   <ng-template [ldSwitchCase]="isTrialTier">
+ *     <div class="trial-features">Trial features</div>
+ *   </ng-template>
+ *   <ng-template ldSwitchDefault>
+ *     <div class="basic-features">Basic features</div>
+ *   </ng-template>
+ * </ng-container>
+ * ```
+ * ```typescript
+ * readonly isTrialTier = (tier: string) => tier.startsWith('trial-');
+ * ```
  */
 @Directive({
-  selector: '[ldSwitchCase]'
+  selector: '[ldSwitchCase]',
+  standalone: true
 })
 export class LdSwitchCaseDirective implements OnInit, OnDestroy {
-  /** The value to match against the LaunchDarkly flag value */
+  /** The value to match against the LaunchDarkly flag value, an array of values, or a predicate */
   @Input() ldSwitchCase!: LDFlagValue;
   
-  private view?: unknown;
-
-  private templateRef = inject(TemplateRef<unknown>);
-  private viewContainer = inject(ViewContainerRef);
   private ldSwitch = inject(LdSwitchDirective);
+  private caseView = new LdSwitchCaseView(inject(TemplateRef<unknown>), inject(ViewContainerRef), this.ldSwitch);
 
   /**
    * Registers this case with the parent LdSwitchDirective
@@ -209,25 +228,38 @@ export class LdSwitchCaseDirective implements OnInit, OnDestroy {
    * Unregisters this case from the parent LdSwitchDirective
    */
   ngOnDestroy() {
-    this.ldSwitch.unregisterCase(this.ldSwitchCase);
+    this.ldSwitch.unregisterCase(this);
+    this.release();
   }
 
   /**
-   * Shows the case content by creating an embedded view
+   * Shows the case content, reattaching a kept view or creating an embedded view
    */
   show() {
-    if (!this.view) {
-      this.view = this.viewContainer.createEmbeddedView(this.templateRef);
-    }
+    this.caseView.show();
   }
 
   /**
-   * Hides the case content by clearing the view container
+   * Hides the case content. Detaches the view in keep-alive mode, otherwise destroys it.
    */
   hide() {
-    if (this.view) {
-      this.viewContainer.clear();
-      this.view = undefined;
-    }
+    this.caseView.hide();
+  }
+
+  /**
+   * Destroys the view kept by keep-alive mode while the case is hidden
+   */
+  release() {
+    this.caseView.release();
+  }
+
+  /**
+   * Renders a template at the position of the case, used for the loading template of the switch
+   * 
+   * @param template - The template to render
+   * @returns The rendered view
+   */
+  render(template: TemplateRef<unknown>): EmbeddedViewRef<unknown> {
+    return this.caseView.render(template);
   }
 }
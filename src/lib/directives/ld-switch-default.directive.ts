@@ -1,5 +1,6 @@
-import { Directive, TemplateRef, ViewContainerRef, OnInit, OnDestroy, inject } from '@angular/core';
+import { Directive, EmbeddedViewRef, TemplateRef, ViewContainerRef, OnInit, OnDestroy, inject } from '@angular/core';
 import { LdSwitchDirective } from './ld-switch.directive';
+import { LdSwitchCaseView } from './ld-switch-case-view';
 
 /**
  * Directive for the default case in ldSwitch.
@@ -203,14 +204,12 @@ import { LdSwitchDirective } from './ld-switch.directive';
  * 10. **Keep it simple**: Don't overwhelm users with complex default content
  */
 @Directive({
-  selector: '[ldSwitchDefault]'
+  selector: '[ldSwitchDefault]',
+  standalone: true
 })
 export class LdSwitchDefaultDirective implements OnInit, OnDestroy {
-  private view?: unknown;
-
-  private templateRef = inject(TemplateRef<unknown>);
-  private viewContainer = inject(ViewContainerRef);
   private ldSwitch = inject(LdSwitchDirective);
+  private caseView = new LdSwitchCaseView(inject(TemplateRef<unknown>), inject(ViewContainerRef), this.ldSwitch);
 
   /**
    * Registers this default case with the parent LdSwitchDirective
@@ -224,24 +223,37 @@ export class LdSwitchDefaultDirective implements OnInit, OnDestroy {
    */
   ngOnDestroy() {
     this.ldSwitch.unregisterDefault();
+    this.release();
   }
 
   /**
-   * Shows the default content by creating an embedded view
+   * Shows the default content, reattaching a kept view or creating an embedded view
    */
   show() {
-    if (!this.view) {
-      this.view = this.viewContainer.createEmbeddedView(this.templateRef);
-    }
+    this.caseView.show();
   }
 
   /**
-   * Hides the default content by clearing the view container
+   * Hides the default content. Detaches the view in keep-alive mode, otherwise destroys it.
    */
   hide() {
-    if (this.view) {
-      this.viewContainer.clear();
-      this.view = undefined;
-    }
+    this.caseView.hide();
+  }
+
+  /**
+   * Destroys the view kept by keep-alive mode while the default is hidden
+   */
+  release() {
+    this.caseView.release();
+  }
+
+  /**
+   * Renders a template at the position of the default case, used for the loading template of the switch
+   * 
+   * @param template - The template to render
+   * @returns The rendered view
+   */
+  render(template: TemplateRef<unknown>): EmbeddedViewRef<unknown> {
+    return this.caseView.render(template);
   }
 }
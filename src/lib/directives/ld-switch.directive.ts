@@ -1,11 +1,22 @@
-import { Directive, Input, OnInit, OnDestroy, inject } from '@angular/core';
-import { Subscription } from 'rxjs';
+import { ChangeDetectorRef, Directive, EmbeddedViewRef, Input, OnInit, OnDestroy, TemplateRef, booleanAttribute, inject } from '@angular/core';
+import { Subscription, switchMap } from 'rxjs';
 import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import { LdLoadingState } from './ld-loading-state';
 import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+import equal from 'fast-deep-equal';
+import type { LDFlagKey, LDFlagPredicate } from '../interfaces/launchdarkly.interface';
 
 interface LdCaseDirective {
   show(): void;
   hide(): void;
+  release(): void;
+  render(template: TemplateRef<unknown>): EmbeddedViewRef<unknown>;
+}
+
+interface LdCaseMatcher {
+  matches: LDFlagPredicate;
+  caseDirective: LdCaseDirective;
 }
 
 /**
@@ -15,7 +26,7 @@ interface LdCaseDirective {
  * ## Parameters
  * 
  * ### ldSwitch (required)
- * - **Type**: `string`
+ * - **Type**: `LDFlagKey` (checked against `LDFlags` in strict templates when augmented)
  * - **Description**: The LaunchDarkly feature flag key to evaluate
  * - **Example**: `'user-tier'`, `'theme'`, `'plan-type'`
  * 
@@ -25,6 +36,33 @@ interface LdCaseDirective {
  * - **Default**: `undefined`
  * - **Example**: `'basic'`, `'light'`, `'standard'`
  * 
+ * ### ldSwitchLoading (optional)
+ * - **Type**: `TemplateRef<any>`
+ * - **Description**: Template to show instead of the cases until LaunchDarkly is ready or the loading timeout expires.
+ *   It is rendered in place of the cases, at the position of the first case.
+ * - **Default**: `undefined`
+ * - **Example**: `#planPlaceholder`
+ * 
+ * ### ldSwitchLoadingTimeout (optional)
+ * - **Type**: `number`
+ * - **Description**: Maximum time to show the loading template in milliseconds
+ * - **Default**: `500`
+ * - **Example**: `1000`
+ * 
+ * ### ldSwitchKeepAlive (optional)
+ * - **Type**: `boolean`
+ * - **Description**: Detach hidden case views and reattach them when their case matches again, instead of destroying
+ *   and recreating them. Keeps component state such as form input and scroll position across flag changes.
+ * - **Default**: `false`
+ * - **Example**: `true`, or the attribute alone: `<ng-container [ldSwitch]="'checkout-layout'" ldSwitchKeepAlive>`
+ * 
+ * ### ldSwitchClient (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use, as registered with `provideLaunchDarkly({ name })`.
+ *   Uses the default client if not provided.
+ * - **Default**: `undefined`
+ * - **Example**: `'partner'`
+ * 
  * ## Usage Examples
  * 
  * ### Basic User Tier Switch
@@ -198,6 +236,22 @@ interface LdCaseDirective {
  * </ng-container>
  * ```
  * 
+ * ### Multiple Values, Objects and Predicates
+ * ```html
+ * <ng-container [ldSwitch]="'user-tier'" [ldSwitchFallback]="'basic'">
+ *   <!-- Matches either value -->
+ *   <ng-template [ldSwitchCase]="['pro', 'enterprise']">Team features</ng-template>
+ *   <!-- Matches when the predicate returns true -->
+ *   <ng-template [ldSwitchCase]="isTrialTier">Trial features</ng-template>
+ *   <ng-template ldSwitchDefault>Basic features</ng-template>
+ * </ng-container>
+ * 
+ * <ng-container [ldSwitch]="'banner-config'" [ldSwitchFallback]="{}">
+ *   <!-- Objects are compared with deep equality -->
+ *   <ng-template [ldSwitchCase]="{ position: 'top', dismissible: true }">Top banner</ng-template>
+ * </ng-container>
+ * ```
+ * 
  * ## Best Practices
  * 
  * 1. **Always provide a fallback**: Use `ldSwitchFallback` to ensure your app works when LaunchDarkly is unavailable
@@ -210,22 +264,43 @@ interface LdCaseDirective {
  * 8. **Handle edge cases**: Test what happens when the flag value doesn't match any case
  */
 @Directive({
-  selector: '[ldSwitch]'
+  selector: '[ldSwitch]',
+  standalone: true
 })
 export class LdSwitchDirective implements OnInit, OnDestroy {
   private subscription?: Subscription;
   private currentFlagKey?: string;
+  private clientName?: string;
   private currentFallback?: LDFlagValue;
+  // primitive case values are looked up directly, objects and predicates are checked in order
   private cases = new Map<LDFlagValue, LdCaseDirective>();
+  private matchers: LdCaseMatcher[] = [];
+  private caseDirectives = new Set<LdCaseDirective>();
   private defaultCase?: LdCaseDirective;
   private currentFlagValue?: LDFlagValue;
+  private loadingTemplate?: TemplateRef<unknown>;
+  private loadingView?: EmbeddedViewRef<unknown>;
+  private loadingTimeout?: number;
+  private keepAliveViews = false;
 
   private ldService = inject(LaunchDarklyService);
+  private ldRegistry = inject(LaunchDarklyRegistry);
+  private cdr = inject(ChangeDetectorRef);
+  private loadingState = new LdLoadingState(loading => {
+    if (loading) {
+      this.updateCases();
+    } else {
+      // the cases are updated by the evaluation that follows
+      this.loadingView?.destroy();
+      this.loadingView = undefined;
+    }
+    this.cdr.markForCheck();
+  });
 
   /**
    * The feature flag key to evaluate
    */
-  @Input() set ldSwitch(flagKey: string) {
+  @Input() set ldSwitch(flagKey: LDFlagKey) {
     this.currentFlagKey = flagKey;
     this.updateSubscription();
   }
@@ -238,6 +313,50 @@ export class LdSwitchDirective implements OnInit, OnDestroy {
     this.updateSubscription();
   }
 
+  /**
+   * Template to show instead of the cases until LaunchDarkly is ready or the loading timeout expires
+   */
+  @Input() set ldSwitchLoading(template: TemplateRef<unknown> | undefined) {
+    this.loadingTemplate = template;
+    this.updateSubscription();
+  }
+
+  /**
+   * Maximum time to show the loading template in milliseconds (default: 500ms)
+   */
+  @Input() set ldSwitchLoadingTimeout(timeoutMs: number | undefined) {
+    this.loadingTimeout = timeoutMs;
+    this.updateSubscription();
+  }
+
+  /**
+   * Detach hidden case views instead of destroying them, so they keep their state
+   */
+  @Input({ transform: booleanAttribute }) set ldSwitchKeepAlive(keepAlive: boolean) {
+    this.keepAliveViews = keepAlive;
+    if (!keepAlive) {
+      // destroy the views that were kept for later
+      this.caseDirectives.forEach(caseDirective => caseDirective.release());
+      this.defaultCase?.release();
+    }
+  }
+
+  /**
+   * Whether hidden case views are detached and kept instead of destroyed.
+   * Read by the case directives when they are hidden.
+   */
+  get keepAlive(): boolean {
+    return this.keepAliveViews;
+  }
+
+  /**
+   * Name of the LaunchDarkly client to use. Uses the default client if not provided.
+   */
+  @Input() set ldSwitchClient(clientName: string | undefined) {
+    this.clientName = clientName;
+    this.updateSubscription();
+  }
+
   ngOnInit() {
     this.updateSubscription();
   }
@@ -246,15 +365,35 @@ export class LdSwitchDirective implements OnInit, OnDestroy {
     this.subscription?.unsubscribe();
   }
 
+  /**
+   * Resolves the LaunchDarkly service for the configured client name.
+   * 
+   * @returns The named service, or the default service if no client name is set
+   */
+  private resolveService(): LaunchDarklyService {
+    return this.clientName ? this.ldRegistry.get(this.clientName) : this.ldService;
+  }
+
   /**
    * Register a case directive for a specific value.
    * Called by LdSwitchCaseDirective during initialization.
    * 
-   * @param value - The value that this case should match
+   * @param value - The value that this case should match: a value, an array of values, or a predicate
    * @param caseDirective - The LdSwitchCaseDirective instance
    */
   registerCase(value: LDFlagValue, caseDirective: LdCaseDirective) {
-    this.cases.set(value, caseDirective);
+    this.caseDirectives.add(caseDirective);
+    if (typeof value === 'function') {
+      this.matchers.push({ matches: value, caseDirective });
+    } else {
+      (Array.isArray(value) ? value : [value]).forEach(item => {
+        if (item !== null && typeof item === 'object') {
+          this.matchers.push({ matches: flagValue => equal(flagValue, item), caseDirective });
+        } else {
+          this.cases.set(item, caseDirective);
+        }
+      });
+    }
     this.updateCases();
   }
 
@@ -262,10 +401,16 @@ export class LdSwitchDirective implements OnInit, OnDestroy {
    * Unregister a case directive.
    * Called by LdSwitchCaseDirective during destruction.
    * 
-   * @param value - The value of the case to unregister
+   * @param caseDirective - The LdSwitchCaseDirective instance to unregister
    */
-  unregisterCase(value: LDFlagValue) {
-    this.cases.delete(value);
+  unregisterCase(caseDirective: LdCaseDirective) {
+    this.caseDirectives.delete(caseDirective);
+    this.cases.forEach((registered, value) => {
+      if (registered === caseDirective) {
+        this.cases.delete(value);
+      }
+    });
+    this.matchers = this.matchers.filter(matcher => matcher.caseDirective !== caseDirective);
     this.updateCases();
   }
 
@@ -302,35 +447,51 @@ export class LdSwitchDirective implements OnInit, OnDestroy {
       return;
     }
 
-    // Subscribe to flag changes
-    this.subscription = this.ldService.variation$(this.currentFlagKey, this.currentFallback)
-      .subscribe(flagValue => {
-        this.currentFlagValue = flagValue;
-        this.updateCases();
-      });
+    // Subscribe to flag changes once LaunchDarkly is ready
+    const service = this.resolveService();
+    const flagKey = this.currentFlagKey;
+    this.subscription = this.loadingState.whenReady(service, this.loadingTemplate, this.loadingTimeout).pipe(
+      switchMap(() => service.variation$(flagKey, this.currentFallback))
+    ).subscribe(flagValue => {
+      this.currentFlagValue = flagValue;
+      this.updateCases();
+    });
   }
 
   /**
    * Updates the visibility of all cases based on the current flag value.
    * Shows the matching case or the default case, and hides all others.
+   * Nothing is shown when no case matches and there is no default case.
    */
   private updateCases() {
-    // Find the matching case
-    const matchingCase = this.cases.get(this.currentFlagValue);
+    // Hide all cases while the loading template is shown
+    if (this.loadingState.loading) {
+      this.caseDirectives.forEach(caseDirective => caseDirective.hide());
+      this.defaultCase?.hide();
+      // render the loading template like a case, once a case is registered (again)
+      if (this.loadingTemplate && (!this.loadingView || this.loadingView.destroyed)) {
+        this.loadingView = ([...this.caseDirectives][0] ?? this.defaultCase)?.render(this.loadingTemplate);
+      }
+      return;
+    }
+
+    // Find the matching case, exact matches of primitive values first
+    const matchingCase = this.cases.get(this.currentFlagValue)
+      ?? this.matchers.find(matcher => matcher.matches(this.currentFlagValue))?.caseDirective;
     
-    if (matchingCase) {
-      // Hide all cases
-      this.cases.forEach(caseDirective => caseDirective.hide());
-      if (this.defaultCase) {
-        this.defaultCase.hide();
+    const shownCase = matchingCase ?? this.defaultCase;
+
+    // Hide all other cases, including the default case when a case matches
+    this.caseDirectives.forEach(caseDirective => {
+      if (caseDirective !== shownCase) {
+        caseDirective.hide();
       }
-      // Show the matching case
-      matchingCase.show();
-    } else if (this.defaultCase) {
-      // Hide all cases
-      this.cases.forEach(caseDirective => caseDirective.hide());
-      // Show the default case
-      this.defaultCase.show();
+    });
+    if (this.defaultCase && this.defaultCase !== shownCase) {
+      this.defaultCase.hide();
     }
+
+    // Show the matching case or the default case
+    shownCase?.show();
   }
 }
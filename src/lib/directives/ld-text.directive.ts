@@ -0,0 +1,172 @@
+import { Directive, Input, ElementRef, Renderer2, OnInit, OnDestroy, inject } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+import type { LDFlagKey } from '../interfaces/launchdarkly.interface';
+
+/**
+ * Directive that sets the text content of an element from a string LaunchDarkly feature flag.
+ * Useful for remote-configured copy such as marketing text and button labels, without a structural template.
+ * 
+ * ## Parameters
+ * 
+ * ### ldText (required)
+ * - **Type**: `LDFlagKey` (checked against `LDFlags` in strict templates when augmented)
+ * - **Description**: The LaunchDarkly feature flag key to evaluate. String and number values are rendered as text.
+ * - **Example**: `'checkout-button-label'`, `'promo-headline'`
+ * 
+ * ### ldTextFallback (optional)
+ * - **Type**: `string`
+ * - **Description**: Text to show if the flag is not available or isn't a string.
+ *   If not provided, the element keeps its own content in that case.
+ * - **Default**: `undefined`
+ * - **Example**: `'Buy now'`
+ * 
+ * ### ldTextParams (optional)
+ * - **Type**: `Record<string, unknown>`
+ * - **Description**: Named parameters interpolated into `{name}` placeholders of the text.
+ *   Placeholders without a parameter are kept as they are.
+ * - **Default**: `undefined`
+ * - **Example**: `{ name: user.firstName, count: cart.length }`
+ * 
+ * ### ldTextClient (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use, as registered with `provideLaunchDarkly({ name })`.
+ *   Uses the default client if not provided.
+ * - **Default**: `undefined`
+ * - **Example**: `'partner'`
+ * 
+ * ## Usage Examples
+ * 
+ * ### Button Label
+ * ```html
+ * <button ldText="checkout-button-label" ldTextFallback="Buy now"></button>
+ * ```
+ * 
+ * ### Interpolated Text
+ * ```html
+ * <!-- flag value: 'Welcome back, {name}! You have {count} items in your cart.' -->
+ * <p [ldText]="'welcome-message'" [ldTextParams]="{ name: user.firstName, count: cart.length }">Welcome back!</p>
+ * ```
+ */
+@Directive({
+  selector: '[ldText]',
+  standalone: true
+})
+export class LdTextDirective implements OnInit, OnDestroy {
+  private subscription?: Subscription;
+  private currentFlagKey?: string;
+  private clientName?: string;
+  private currentFallback?: string;
+  private params?: Record<string, unknown>;
+  private currentFlagValue?: LDFlagValue;
+
+  private elementRef = inject(ElementRef);
+  private renderer = inject(Renderer2);
+  private ldService = inject(LaunchDarklyService);
+  private ldRegistry = inject(LaunchDarklyRegistry);
+
+  /**
+   * The feature flag key to evaluate
+   */
+  @Input() set ldText(flagKey: LDFlagKey) {
+    this.currentFlagKey = flagKey;
+    this.updateSubscription();
+  }
+
+  /**
+   * Text to show if the flag is not available or isn't a string
+   */
+  @Input() set ldTextFallback(fallback: string | undefined) {
+    this.currentFallback = fallback;
+    this.updateSubscription();
+  }
+
+  /**
+   * Named parameters interpolated into `{name}` placeholders of the text
+   */
+  @Input() set ldTextParams(params: Record<string, unknown> | undefined) {
+    this.params = params;
+    // the flag value doesn't change, only the interpolation
+    if (this.subscription) {
+      this.updateText();
+    }
+  }
+
+  /**
+   * Name of the LaunchDarkly client to use. Uses the default client if not provided.
+   */
+  @Input() set ldTextClient(clientName: string | undefined) {
+    this.clientName = clientName;
+    this.updateSubscription();
+  }
+
+  ngOnInit() {
+    this.updateSubscription();
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Resolves the LaunchDarkly service for the configured client name.
+   * 
+   * @returns The named service, or the default service if no client name is set
+   */
+  private resolveService(): LaunchDarklyService {
+    return this.clientName ? this.ldRegistry.get(this.clientName) : this.ldService;
+  }
+
+  /**
+   * Updates the subscription to LaunchDarkly flag changes.
+   * Cleans up existing subscription and creates a new one if a flag key is available.
+   */
+  private updateSubscription() {
+    // Clean up existing subscription
+    this.subscription?.unsubscribe();
+    this.subscription = undefined;
+
+    // Only create subscription if we have a flag key
+    if (!this.currentFlagKey) {
+      return;
+    }
+
+    // Subscribe to flag changes
+    this.subscription = this.resolveService().variation$(this.currentFlagKey, this.currentFallback)
+      .subscribe(flagValue => {
+        this.currentFlagValue = flagValue;
+        this.updateText();
+      });
+  }
+
+  /**
+   * Sets the text content of the element from the current flag value, the fallback,
+   * or leaves the element's own content when neither is available.
+   */
+  private updateText() {
+    const flagValue = this.currentFlagValue;
+    const text = typeof flagValue === 'string' || typeof flagValue === 'number' ? String(flagValue) : this.currentFallback;
+    if (text === undefined) {
+      return;
+    }
+    this.renderer.setProperty(this.elementRef.nativeElement, 'textContent', this.interpolate(text));
+  }
+
+  /**
+   * Replaces `{name}` placeholders with the named parameters.
+   * 
+   * @param text - The text to interpolate
+   * @returns The text with the known placeholders replaced
+   */
+  private interpolate(text: string): string {
+    const params = this.params;
+    if (!params) {
+      return text;
+    }
+    return text.replace(/\{\s*([\w.-]+)\s*\}/g, (placeholder, name: string) =>
+      Object.hasOwn(params, name) ? String(params[name] ?? '') : placeholder
+    );
+  }
+}
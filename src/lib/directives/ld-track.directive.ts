@@ -1,5 +1,24 @@
-import { Directive, Input, ElementRef, Renderer2, OnInit, OnDestroy, OnChanges, SimpleChanges, inject } from '@angular/core';
+import { Directive, Input, ElementRef, Renderer2, OnInit, OnDestroy, OnChanges, SimpleChanges, PLATFORM_ID, booleanAttribute, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { distinctUntilChanged, of } from 'rxjs';
+import equal from 'fast-deep-equal';
 import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import { LD_TRACK_CONFIG } from '../interfaces/launchdarkly.interface';
+import type { LDContext } from 'launchdarkly-js-client-sdk';
+import type { LDTrackElementField } from '../interfaces/launchdarkly.interface';
+
+/**
+ * Extracts additional event data from the DOM event that triggered {@link LdTrackDirective}, e.g. form values
+ * or `data-*` attributes. The event is undefined for impressions.
+ */
+export type LdTrackExtractor = (event: Event | undefined, element: HTMLElement) => Record<string, unknown> | undefined;
+
+// the ldTrackEvent value that tracks when the element is seen instead of listening to a DOM event
+const IMPRESSION_EVENT = 'impression';
+const DEFAULT_ELEMENT_FIELDS: LDTrackElementField[] = ['tagName', 'id', 'className'];
+// inputs that change which listeners are needed or how they track
+const LISTENER_INPUTS = ['ldTrack', 'ldTrackEvent', 'ldTrackOnce', 'ldTrackDebounce', 'ldTrackThrottle', 'ldTrackThreshold', 'ldTrackDwell', 'ldTrackImpressionScope', 'ldTrackClient'];
 
 /**
  * Directive that automatically tracks events when users interact with elements.
@@ -14,10 +33,25 @@ import { LaunchDarklyService } from '../services/launchdarkly.service';
  * 
  * ### ldTrackData (optional)
  * - **Type**: `any`
- * - **Description**: Custom data to associate with the event
+ * - **Description**: Custom data to associate with the event. Plain objects are merged with the element information,
+ *   other values (arrays, strings, numbers...) are sent as `data`.
  * - **Default**: `undefined`
  * - **Example**: `{product: 'premium', price: 29.99}`, `{section: 'hero'}`, `{userId: '123'}`
  * 
+ * ### ldTrackExtract (optional)
+ * - **Type**: `LdTrackExtractor`
+ * - **Description**: Function called with the DOM event and the element when tracking; the returned fields are added
+ *   to the event data
+ * - **Default**: `undefined`
+ * - **Example**: `(event, element) => ({ plan: element.dataset['plan'] })`
+ * 
+ * ### ldTrackEnrich (optional)
+ * - **Type**: `boolean`
+ * - **Description**: Whether the element information and the event type are added to the event data.
+ *   Set to false to send `ldTrackData` as it is.
+ * - **Default**: `true`
+ * - **Example**: `false`
+ * 
  * ### ldTrackValue (optional)
  * - **Type**: `number`
  * - **Description**: Numeric metric value for the event (useful for conversions)
@@ -26,9 +60,53 @@ import { LaunchDarklyService } from '../services/launchdarkly.service';
  * 
  * ### ldTrackEvent (optional)
  * - **Type**: `string`
- * - **Description**: The DOM event to listen for
+ * - **Description**: The DOM event(s) to listen for, separated by spaces. Supports Angular's key event syntax.
  * - **Default**: `'click'`
- * - **Example**: `'click'`, `'mouseenter'`, `'focus'`, `'submit'`
+ * - **Example**: `'click'`, `'mouseenter'`, `'focus'`, `'submit'`, `'impression'`, `'click keydown.enter'`
+ * 
+ * ### ldTrackOnce (optional)
+ * - **Type**: `boolean`
+ * - **Description**: Tracks only the first event, then stops listening
+ * - **Default**: `false`
+ * - **Example**: `true`
+ * 
+ * ### ldTrackDebounce (optional)
+ * - **Type**: `number`
+ * - **Description**: Tracks only after no event has occurred for this many milliseconds. Takes precedence over `ldTrackThrottle`.
+ * - **Default**: `undefined`
+ * - **Example**: `300`, `1000`
+ * 
+ * ### ldTrackThrottle (optional)
+ * - **Type**: `number`
+ * - **Description**: Tracks the first event, then ignores events for this many milliseconds
+ * - **Default**: `undefined`
+ * - **Example**: `500`, `5000`
+ * 
+ * ### ldTrackThreshold (optional)
+ * - **Type**: `number`
+ * - **Description**: For `'impression'` tracking, the fraction of the element (0 to 1) that must be visible
+ * - **Default**: `0.5`
+ * - **Example**: `0`, `0.25`, `1`
+ * 
+ * ### ldTrackDwell (optional)
+ * - **Type**: `number`
+ * - **Description**: For `'impression'` tracking, how long in milliseconds the element must stay visible
+ * - **Default**: `1000`
+ * - **Example**: `0`, `500`, `2000`
+ * 
+ * ### ldTrackImpressionScope (optional)
+ * - **Type**: `'page' | 'context'`
+ * - **Description**: For `'impression'` tracking, `'page'` tracks the element once while it is rendered,
+ *   `'context'` tracks it once more after each change of the evaluation context (see `setContext`)
+ * - **Default**: `'page'`
+ * - **Example**: `'context'`
+ * 
+ * ### ldTrackClient (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use, as registered with `provideLaunchDarkly({ name })`.
+ *   Uses the default client if not provided.
+ * - **Default**: `undefined`
+ * - **Example**: `'partner'`
  * 
  * ## Supported Events
  * 
@@ -48,6 +126,23 @@ import { LaunchDarklyService } from '../services/launchdarkly.service';
  * - `'scroll'` - When element is scrolled
  * - `'resize'` - When element is resized
  * - Any other valid DOM event name
+ * - Key events with modifiers, e.g. `'keydown.enter'` or `'keydown.control.s'`
+ * 
+ * Several events can be tracked on one element by separating them with spaces. `ldTrackOnce`, `ldTrackDebounce` and
+ * `ldTrackThrottle` apply to all of them together, and the tracked data has the `eventType` of the event that fired.
+ * 
+ * ## Event Data
+ * 
+ * By default the event data has the `element` fields `tagName`, `id` and `className` and the `eventType`. Which of them
+ * are added, and a hook that scrubs personal information before tracking, are configured for the application with
+ * `withTrackingConfig()` (the `LD_TRACK_CONFIG` token).
+ * 
+ * ## Impression Tracking
+ * 
+ * With `ldTrackEvent` set to `'impression'`, the event is tracked when the element has been visible for
+ * `ldTrackDwell` milliseconds with at least `ldTrackThreshold` of its area, measured with an IntersectionObserver.
+ * It is tracked only once per element (or per element and context). When IntersectionObserver is not available,
+ * e.g. during server-side rendering, no impression is tracked.
  * 
  * ## Usage Examples
  * 
@@ -216,6 +311,47 @@ import { LaunchDarklyService } from '../services/launchdarkly.service';
  * </audio>
  * ```
  * 
+ * ### Rate Limiting and Multiple Events
+ * ```html
+ * <!-- Track search input once the user stops typing -->
+ * <input [ldTrack]="'search-typed'" [ldTrackEvent]="'input'" [ldTrackDebounce]="500">
+ * 
+ * <!-- Track scrolling at most every 5 seconds -->
+ * <div [ldTrack]="'feed-scrolled'" [ldTrackEvent]="'scroll'" [ldTrackThrottle]="5000">...</div>
+ * 
+ * <!-- Track the first activation by mouse or keyboard -->
+ * <div [ldTrack]="'card-opened'" [ldTrackEvent]="'click keydown.enter'" ldTrackOnce tabindex="0">...</div>
+ * ```
+ * 
+ * ### Extracted Data
+ * ```html
+ * <!-- Add data attributes and form values to the event data -->
+ * <form [ldTrack]="'signup-submitted'"
+ *       [ldTrackEvent]="'submit'"
+ *       [ldTrackExtract]="extractSignup"
+ *       data-plan="pro">
+ *   ...
+ * </form>
+ * ```
+ * ```typescript
+ * readonly extractSignup: LdTrackExtractor = (event, element) => ({
+ *   plan: element.dataset['plan'],
+ *   newsletter: element.querySelector<HTMLInputElement>('[name=newsletter]')?.checked
+ * });
+ * ```
+ * 
+ * ### Impression Tracking
+ * ```html
+ * <!-- Track that the variation was actually seen, for experiments -->
+ * <section *ldIf="'new-pricing-table'"
+ *          [ldTrack]="'pricing-table-seen'"
+ *          [ldTrackEvent]="'impression'"
+ *          [ldTrackThreshold]="0.75"
+ *          [ldTrackDwell]="2000">
+ *   New pricing
+ * </section>
+ * ```
+ * 
  * ### Custom Event Tracking
  * ```html
  * <!-- Track custom events -->
@@ -229,18 +365,34 @@ import { LaunchDarklyService } from '../services/launchdarkly.service';
  * 
  */
 @Directive({
-  selector: '[ldTrack]'
+  selector: '[ldTrack]',
+  standalone: true
 })
 export class LdTrackDirective implements OnInit, OnDestroy, OnChanges {
   private _eventKey?: string;
+  private _clientName?: string;
   private _eventData?: unknown;
+  private _extractor?: LdTrackExtractor;
+  private _enrich = true;
   private _metricValue?: number;
   private _eventType = 'click';
   private _eventListener?: () => void;
+  private _once = false;
+  private _hasTracked = false;
+  private _debounce?: number;
+  private _throttle?: number;
+  private _threshold = 0.5;
+  private _dwell = 1000;
+  private _impressionScope: 'page' | 'context' = 'page';
+  private _impressionTracked = false;
+  private _impressionContext?: LDContext;
 
   private elementRef = inject(ElementRef);
   private renderer = inject(Renderer2);
   private ldService = inject(LaunchDarklyService);
+  private ldRegistry = inject(LaunchDarklyRegistry);
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+  private trackConfig = inject(LD_TRACK_CONFIG, { optional: true });
 
   /**
    * The event key/name to track
@@ -256,6 +408,20 @@ export class LdTrackDirective implements OnInit, OnDestroy, OnChanges {
     this._eventData = data;
   }
 
+  /**
+   * Function that extracts additional event data from the DOM event and the element
+   */
+  @Input() set ldTrackExtract(extractor: LdTrackExtractor | undefined) {
+    this._extractor = extractor;
+  }
+
+  /**
+   * Whether the element information and the event type are added to the event data (default: true)
+   */
+  @Input({ transform: booleanAttribute }) set ldTrackEnrich(enrich: boolean) {
+    this._enrich = enrich;
+  }
+
   /**
    * Numeric metric value for the event (useful for conversions)
    */
@@ -264,7 +430,7 @@ export class LdTrackDirective implements OnInit, OnDestroy, OnChanges {
   }
 
   /**
-   * The DOM event to listen for (default: 'click')
+   * The DOM event(s) to listen for, separated by spaces (default: 'click')
    */
   @Input() set ldTrackEvent(event: string) {
     if (this._eventType !== event) {
@@ -273,6 +439,55 @@ export class LdTrackDirective implements OnInit, OnDestroy, OnChanges {
     }
   }
 
+  /**
+   * Tracks only the first event, then stops listening
+   */
+  @Input({ transform: booleanAttribute }) set ldTrackOnce(once: boolean) {
+    this._once = once;
+  }
+
+  /**
+   * Tracks only after no event has occurred for this many milliseconds
+   */
+  @Input() set ldTrackDebounce(debounce: number | undefined) {
+    this._debounce = debounce;
+  }
+
+  /**
+   * Tracks the first event, then ignores events for this many milliseconds
+   */
+  @Input() set ldTrackThrottle(throttle: number | undefined) {
+    this._throttle = throttle;
+  }
+
+  /**
+   * For impression tracking, the fraction of the element (0 to 1) that must be visible (default: 0.5)
+   */
+  @Input() set ldTrackThreshold(threshold: number) {
+    this._threshold = threshold ?? 0.5;
+  }
+
+  /**
+   * For impression tracking, how long in milliseconds the element must stay visible (default: 1000)
+   */
+  @Input() set ldTrackDwell(dwell: number) {
+    this._dwell = dwell ?? 1000;
+  }
+
+  /**
+   * For impression tracking, whether the element is tracked once while rendered or once per context (default: 'page')
+   */
+  @Input() set ldTrackImpressionScope(scope: 'page' | 'context') {
+    this._impressionScope = scope ?? 'page';
+  }
+
+  /**
+   * Name of the LaunchDarkly client to use. Uses the default client if not provided.
+   */
+  @Input() set ldTrackClient(clientName: string | undefined) {
+    this._clientName = clientName;
+  }
+
   ngOnInit() {
     // Validate that we have an event key
     if (!this._eventKey) {
@@ -282,7 +497,7 @@ export class LdTrackDirective implements OnInit, OnDestroy, OnChanges {
   }
 
   ngOnChanges(changes: SimpleChanges) {
-    if (changes['ldTrackEvent'] || changes['ldTrack']) {
+    if (LISTENER_INPUTS.some(input => changes[input])) {
       this.updateEventListener();
     }
   }
@@ -291,25 +506,115 @@ export class LdTrackDirective implements OnInit, OnDestroy, OnChanges {
     this.removeEventListener();
   }
 
+  /**
+   * Resolves the LaunchDarkly service for the configured client name.
+   * 
+   * @returns The named service, or the default service if no client name is set
+   */
+  private resolveService(): LaunchDarklyService {
+    return this._clientName ? this.ldRegistry.get(this._clientName) : this.ldService;
+  }
 
   /**
-   * Updates the event listener based on the current event type.
-   * Removes any existing listener and adds a new one if an event key is provided.
+   * Updates the event listeners based on the current event types.
+   * Removes the existing listeners and their pending debounce or throttle timer, and adds new ones
+   * if an event key is provided and a once-only event hasn't been tracked yet.
    */
   private updateEventListener() {
     this.removeEventListener();
-    
-    if (this._eventKey) {
-      this._eventListener = this.renderer.listen(
-        this.elementRef.nativeElement,
-        this._eventType,
-        () => this.trackEvent()
-      );
+
+    if (!this._eventKey || (this._once && this._hasTracked)) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const track = (eventType: string, event?: Event) => {
+      if (this._once) {
+        this._hasTracked = true;
+        this.removeEventListener();
+      }
+      this.trackEvent(eventType, event);
+    };
+    const handle = (eventType: string, event: Event) => {
+      if (this._debounce) {
+        clearTimeout(timer);
+        timer = setTimeout(() => track(eventType, event), this._debounce);
+      } else if (this._throttle) {
+        if (!timer) {
+          timer = setTimeout(() => {
+            timer = undefined;
+          }, this._throttle);
+          track(eventType, event);
+        }
+      } else {
+        track(eventType, event);
+      }
+    };
+
+    const eventTypes = (this._eventType ?? '').split(/\s+/).filter(Boolean);
+    const removers = eventTypes.map(eventType => eventType === IMPRESSION_EVENT
+      ? this.observeImpression(() => track(eventType))
+      : this.renderer.listen(this.elementRef.nativeElement, eventType, (event: Event) => handle(eventType, event))
+    );
+    this._eventListener = () => {
+      clearTimeout(timer);
+      removers.forEach(remove => remove());
+    };
+  }
+
+  /**
+   * Observes the visibility of the element and reports an impression once it has been visible long enough.
+   * In context scope the impression is reported again after the evaluation context changes.
+   * 
+   * @param onImpression - Called when the element has been seen
+   * @returns Function that stops observing
+   */
+  private observeImpression(onImpression: () => void): () => void {
+    if (!this.isBrowser || typeof IntersectionObserver === 'undefined') {
+      return () => undefined;
     }
+
+    const element = this.elementRef.nativeElement;
+    const threshold = this._threshold;
+    let context: LDContext | undefined;
+    let dwellTimer: ReturnType<typeof setTimeout> | undefined;
+    const cancelDwell = () => {
+      clearTimeout(dwellTimer);
+      dwellTimer = undefined;
+    };
+
+    const observer = new IntersectionObserver(entries => {
+      const entry = entries[entries.length - 1];
+      if (!entry.isIntersecting || entry.intersectionRatio < threshold) {
+        cancelDwell();
+        return;
+      }
+      dwellTimer ??= setTimeout(() => {
+        dwellTimer = undefined;
+        observer.unobserve(element);
+        this._impressionTracked = true;
+        this._impressionContext = context;
+        onImpression();
+      }, this._dwell);
+    }, { threshold });
+
+    const contexts$ = this._impressionScope === 'context' ? this.resolveService().context$ : of(undefined);
+    const subscription = contexts$.pipe(distinctUntilChanged(equal)).subscribe(current => {
+      context = current;
+      if (!this._impressionTracked || !equal(current, this._impressionContext)) {
+        observer.observe(element);
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      cancelDwell();
+      observer.disconnect();
+    };
   }
 
   /**
-   * Removes the current event listener if one exists.
+   * Removes the current event listeners if there are any.
    */
   private removeEventListener() {
     if (this._eventListener) {
@@ -321,27 +626,70 @@ export class LdTrackDirective implements OnInit, OnDestroy, OnChanges {
 
   /**
    * Internal method that handles the actual event tracking.
-   * Enhances the provided data with element information and tracks the event via LaunchDarkly.
+   * Builds the event data, lets the configured hook scrub it and tracks the event via LaunchDarkly.
+   * 
+   * @param eventType - The event that was triggered
+   * @param event - The DOM event, undefined for impressions
    */
-  private trackEvent() {
+  private trackEvent(eventType: string, event?: Event) {
     if (!this._eventKey) {
       console.warn('[LdTrackDirective] Cannot track event: no event key provided');
       return;
     }
 
-    // Enhance the data with element information
-    const enhancedData = {
-      ...(this._eventData as Record<string, unknown>),
-      element: {
-        tagName: this.elementRef.nativeElement.tagName.toLowerCase(),
-        id: this.elementRef.nativeElement.id,
-        className: this.elementRef.nativeElement.className,
-      },
-      eventType: this._eventType
-    };
+    const data = this.buildEventData(eventType, event);
+    const scrub = this.trackConfig?.scrub;
 
     // Track the event
-    this.ldService.track(this._eventKey!, enhancedData, this._metricValue);
-    
+    this.resolveService().track(this._eventKey, scrub ? scrub(data, this._eventKey) : data, this._metricValue);
+  }
+
+  /**
+   * Builds the event data from `ldTrackData`, the extracted fields and the element information.
+   * 
+   * @param eventType - The event that was triggered
+   * @param event - The DOM event, undefined for impressions
+   * @returns The event data, or `ldTrackData` as it is when there is nothing to add
+   */
+  private buildEventData(eventType: string, event?: Event): unknown {
+    const element: HTMLElement = this.elementRef.nativeElement;
+    const extracted = this._extractor?.(event, element);
+    if (!this._enrich && !extracted) {
+      return this._eventData;
+    }
+
+    // only plain objects can be merged, anything else (arrays, primitives, dates...) is kept as a field
+    const eventData = this._eventData;
+    const data: Record<string, unknown> = eventData === undefined || eventData === null
+      ? {}
+      : isPlainObject(eventData) ? { ...eventData } : { data: eventData };
+    Object.assign(data, extracted);
+
+    if (this._enrich) {
+      const fields = this.trackConfig?.elementFields ?? DEFAULT_ELEMENT_FIELDS;
+      if (fields.length) {
+        data['element'] = Object.fromEntries(fields.map(field =>
+          [field, field === 'tagName' ? element.tagName.toLowerCase() : element[field]]
+        ));
+      }
+      if (this.trackConfig?.eventType !== false) {
+        data['eventType'] = eventType;
+      }
+    }
+    return data;
+  }
+}
+
+/**
+ * Checks whether a value is a plain object, e.g. an object literal.
+ * 
+ * @param value - The value to check
+ * @returns true if the value can be merged into the event data
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
   }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
 }
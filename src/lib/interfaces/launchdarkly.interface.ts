@@ -1,14 +1,22 @@
 import { InjectionToken } from '@angular/core';
-import type { LDContext, LDOptions, LDFlagValue } from 'launchdarkly-js-client-sdk';
+import type { LDContext, LDEvaluationDetail, LDOptions, LDFlagValue, LDFlagSet } from 'launchdarkly-js-client-sdk';
 
 /**
  * Configuration interface for the LaunchDarkly service
  */
 export interface LDServiceConfig {
+  /**
+   * Optional name for an additional client, e.g. for a second LaunchDarkly project.
+   * Named clients are fetched with `LaunchDarklyRegistry.get(name)`.
+   */
+  name?: string;
   /** LaunchDarkly client-side ID */
   clientId: string;
-  /** User context for flag evaluation */
-  context: LDContext;
+  /**
+   * User context for flag evaluation.
+   * Omit to create the client lazily with `LaunchDarklyService.start()`.
+   */
+  context?: LDContext;
   /** Optional LaunchDarkly client options */
   options?: LDOptions;
   /** Optional timeout for initialization in milliseconds */
@@ -53,3 +61,174 @@ export const DEFAULT_LD_CONFIG: Partial<LDServiceConfig> = {
  * Injection token for LaunchDarkly service configuration
  */
 export const LD_SERVICE_CONFIG = new InjectionToken<LDServiceConfig>('LD_SERVICE_CONFIG');
+
+/**
+ * Injection token for local flag overrides used during development.
+ * Overridden flags are returned in place of the evaluated value while Angular runs in dev mode.
+ */
+export const LD_FLAG_OVERRIDES = new InjectionToken<LDFlagSet>('LD_FLAG_OVERRIDES');
+
+/**
+ * Source of flag values used while rendering on the server, where the browser SDK cannot run.
+ * Typically backed by a LaunchDarkly server-side SDK, e.g. `allFlagsState(context, { clientSideOnly: true }).toJSON()`.
+ */
+export interface LDServerFlagSource {
+  /**
+   * Evaluates all client-side flags for the given context.
+   * The result may include the `$flagsState` metadata produced by the server-side SDKs.
+   */
+  allFlags(context: LDContext): LDFlagSet | Promise<LDFlagSet>;
+}
+
+/**
+ * Injection token for the flag source used during server-side rendering
+ */
+export const LD_SERVER_FLAG_SOURCE = new InjectionToken<LDServerFlagSource>('LD_SERVER_FLAG_SOURCE');
+
+/**
+ * Persistent storage for the last known flag values of each context.
+ * Implement this to store flags somewhere other than `localStorage`, e.g. IndexedDB.
+ */
+export interface LDFlagCache {
+  /** Reads the cached flags for a cache key, or null if nothing is cached */
+  get(key: string): LDFlagSet | null | Promise<LDFlagSet | null>;
+  /** Writes the flags for a cache key */
+  set(key: string, flags: LDFlagSet): void | Promise<void>;
+}
+
+/**
+ * Injection token for the persistent flag cache
+ */
+export const LD_FLAG_CACHE = new InjectionToken<LDFlagCache>('LD_FLAG_CACHE');
+
+/**
+ * Element fields that `ldTrack` can add to the event data
+ */
+export type LDTrackElementField = 'tagName' | 'id' | 'className';
+
+/**
+ * Configuration of the data that `ldTrack` sends with each event
+ */
+export interface LDTrackConfig {
+  /**
+   * Element fields added to the event data under `element`.
+   * Defaults to all fields, an empty list adds no element information.
+   */
+  elementFields?: LDTrackElementField[];
+  /** Whether the DOM event type is added to the event data as `eventType`. Defaults to true. */
+  eventType?: boolean;
+  /**
+   * Called with the event data right before it is tracked, e.g. to strip personal information.
+   * The returned value is tracked instead.
+   */
+  scrub?: (data: unknown, eventKey: string) => unknown;
+}
+
+/**
+ * Injection token for the `ldTrack` event data configuration
+ */
+export const LD_TRACK_CONFIG = new InjectionToken<LDTrackConfig>('LD_TRACK_CONFIG');
+
+/**
+ * The application's feature flags, mapping each flag key to the type of its value.
+ * Augment this interface to type-check flag keys and values in the service and the directives.
+ * Until it is augmented any string key is accepted and values are untyped.
+ *
+ * @example
+ * ```typescript
+ * declare module '@launchtarqly/launchdarkly-angular' {
+ *   interface LDFlags {
+ *     'checkout-v2': boolean;
+ *     'theme': 'light' | 'dark';
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface LDFlags {}
+
+/**
+ * The flag map used by default: the augmented {@link LDFlags}, or any flag set when it isn't augmented
+ */
+export type LDFlagMap = keyof LDFlags extends never ? LDFlagSet : LDFlags;
+
+/**
+ * The flag keys of a flag map
+ */
+export type LDFlagKey<FlagsT extends object = LDFlagMap> = Extract<keyof FlagsT, string>;
+
+/**
+ * Evaluation detail whose value has the type of the evaluated flag
+ */
+export type LDTypedEvaluationDetail<ValueT> = Omit<LDEvaluationDetail, 'value'> & { value: ValueT };
+
+/**
+ * Injection token for the declared flag defaults, used when no fallback is passed
+ */
+export const LD_FLAG_DEFAULTS = new InjectionToken<LDFlagSet>('LD_FLAG_DEFAULTS');
+
+/**
+ * Operators for comparing a flag value against an expected value
+ */
+export type LDFlagOperator =
+  | 'eq'
+  | 'deepEqual'
+  | 'in'
+  | 'notIn'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'matches'
+  | 'semverEq'
+  | 'semverGt'
+  | 'semverGte'
+  | 'semverLt'
+  | 'semverLte';
+
+/**
+ * Predicate receiving the (selected) flag value
+ */
+export type LDFlagPredicate = (value: LDFlagValue) => boolean;
+
+/**
+ * Condition a flag value must meet
+ */
+export interface LDFlagCondition {
+  /**
+   * How to compare the flag value with `value`.
+   * Defaults to `'eq'` (strict equality), or a truthiness check when `value` is undefined.
+   */
+  operator?: LDFlagOperator;
+  /** The expected value; an array for `in`/`notIn`, a string or RegExp for `matches`, a version for `semver*` */
+  value?: LDFlagValue;
+  /** Path into an object flag to compare instead of the whole value, e.g. `'limits.seats'` or `'$.tiers[0].name'` */
+  path?: string;
+  /** Arbitrary check, used instead of `operator` and `value` */
+  predicate?: LDFlagPredicate;
+}
+
+/**
+ * Condition on a single flag, for combining several flags
+ */
+export interface LDKeyedFlagCondition<KeyT extends string = LDFlagKey> extends LDFlagCondition {
+  /** The feature flag key */
+  flag: KeyT;
+  /** Value to use if the flag is not available. Uses the declared default if omitted. */
+  fallback?: LDFlagValue;
+}
+
+/**
+ * Conditions on several flags: the expected value by flag key (compared with deep equality),
+ * or a list of conditions for operators, paths and fallbacks
+ */
+export type LDFlagConditions<FlagsT extends object = LDFlagMap> =
+  | { [KeyT in LDFlagKey<FlagsT>]?: FlagsT[KeyT] }
+  | LDKeyedFlagCondition<LDFlagKey<FlagsT>>[];
+
+/**
+ * Combination of flag conditions: `all` must be met, or `any` of them
+ */
+export type LDFlagExpression<FlagsT extends object = LDFlagMap> =
+  | { all: LDFlagConditions<FlagsT> }
+  | { any: LDFlagConditions<FlagsT> };
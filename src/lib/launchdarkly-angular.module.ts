@@ -10,6 +10,14 @@ import { LdSwitchDefaultDirective } from './directives/ld-switch-default.directi
 import { LdClassIfDirective } from './directives/ld-class-if.directive';
 import { LdStyleIfDirective } from './directives/ld-style-if.directive';
 import { LdTrackDirective } from './directives/ld-track.directive';
+import { LdComponentOutletDirective } from './directives/ld-component-outlet.directive';
+import { LdTextDirective } from './directives/ld-text.directive';
+import { LdAttrDirective } from './directives/ld-attr.directive';
+import { LdCssVarsDirective } from './directives/ld-css-vars.directive';
+
+// Pipes
+import { LdVariationPipe } from './pipes/ld-variation.pipe';
+import { LdVariationDetailPipe } from './pipes/ld-variation-detail.pipe';
 
 // Services and interfaces
 import { LaunchDarklyService } from './services/launchdarkly.service';
@@ -40,8 +48,8 @@ import type { LDServiceConfig } from './interfaces/launchdarkly.interface';
  * ```
  */
 @NgModule({
-  imports: [CommonModule],
-  declarations: [
+  imports: [
+    CommonModule,
     LdIfDirective,
     LdFlagDirective,
     LdSwitchDirective,
@@ -49,7 +57,13 @@ import type { LDServiceConfig } from './interfaces/launchdarkly.interface';
     LdSwitchDefaultDirective,
     LdClassIfDirective,
     LdStyleIfDirective,
-    LdTrackDirective
+    LdTrackDirective,
+    LdComponentOutletDirective,
+    LdTextDirective,
+    LdAttrDirective,
+    LdCssVarsDirective,
+    LdVariationPipe,
+    LdVariationDetailPipe
   ],
   exports: [
     LdIfDirective,
@@ -59,7 +73,13 @@ import type { LDServiceConfig } from './interfaces/launchdarkly.interface';
     LdSwitchDefaultDirective,
     LdClassIfDirective,
     LdStyleIfDirective,
-    LdTrackDirective
+    LdTrackDirective,
+    LdComponentOutletDirective,
+    LdTextDirective,
+    LdAttrDirective,
+    LdCssVarsDirective,
+    LdVariationPipe,
+    LdVariationDetailPipe
   ]
 })
 export class LaunchDarklyAngularModule {
@@ -0,0 +1,96 @@
+import { ChangeDetectorRef, Injectable, OnDestroy, inject } from '@angular/core';
+import { Observable, Subscription } from 'rxjs';
+import equal from 'fast-deep-equal';
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+
+/**
+ * Base of the flag pipes. Holds a single subscription like the async pipe, which is replaced when the key,
+ * fallback or client changes and released when the pipe is destroyed, and marks the view for check on changes.
+ */
+@Injectable()
+export abstract class LdFlagPipe<ResultT> implements OnDestroy {
+  private subscription?: Subscription;
+  private currentFlagKey?: string;
+  private currentFallback?: LDFlagValue;
+  private clientName?: string;
+  private started = false;
+  private latest!: ResultT;
+
+  private ldService = inject(LaunchDarklyService);
+  private ldRegistry = inject(LaunchDarklyRegistry);
+  private cdr = inject(ChangeDetectorRef);
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Evaluates the flag with the given service.
+   * 
+   * @param service - The LaunchDarkly service of the client
+   * @param key - The feature flag key
+   * @param fallback - The fallback value
+   * @returns Observable that emits the result on subscription and on each change
+   */
+  protected abstract evaluate(service: LaunchDarklyService, key: string, fallback: LDFlagValue): Observable<ResultT>;
+
+  /**
+   * Returns the result without a flag key.
+   * 
+   * @param fallback - The fallback value
+   * @returns The result to return until a key is given
+   */
+  protected abstract emptyResult(fallback: LDFlagValue): ResultT;
+
+  /**
+   * Returns the latest result, subscribing again when the key, fallback or client changed.
+   * 
+   * @param key - The feature flag key
+   * @param fallback - The fallback value
+   * @param client - Name of the LaunchDarkly client to use
+   * @returns The latest result
+   */
+  protected latestResult(key: string | null | undefined, fallback: LDFlagValue, client: string | undefined): ResultT {
+    if (!this.started || key !== this.currentFlagKey || client !== this.clientName || !equal(fallback, this.currentFallback)) {
+      this.currentFlagKey = key ?? undefined;
+      this.currentFallback = fallback;
+      this.clientName = client;
+      this.started = true;
+      this.updateSubscription();
+    }
+    return this.latest;
+  }
+
+  /**
+   * Resolves the LaunchDarkly service to use, based on the client name
+   */
+  private resolveService(): LaunchDarklyService {
+    return this.clientName ? this.ldRegistry.get(this.clientName) : this.ldService;
+  }
+
+  /**
+   * Replaces the subscription for the current key, fallback and client
+   */
+  private updateSubscription() {
+    this.subscription?.unsubscribe();
+    this.subscription = undefined;
+
+    if (!this.currentFlagKey) {
+      this.latest = this.emptyResult(this.currentFallback);
+      return;
+    }
+
+    // the current result is emitted synchronously and returned by transform, no need to mark for check
+    let sync = true;
+    this.subscription = this.evaluate(this.resolveService(), this.currentFlagKey, this.currentFallback)
+      .subscribe(result => {
+        this.latest = result;
+        if (!sync) {
+          this.cdr.markForCheck();
+        }
+      });
+    sync = false;
+  }
+}
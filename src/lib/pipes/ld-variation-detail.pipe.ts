@@ -0,0 +1,58 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { Observable } from 'rxjs';
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LdFlagPipe } from './ld-flag-pipe';
+import type { LDEvaluationDetail, LDFlagValue } from 'launchdarkly-js-client-sdk';
+import type { LDFlagKey, LDFlagMap, LDTypedEvaluationDetail } from '../interfaces/launchdarkly.interface';
+
+/**
+ * Pipe that returns detailed evaluation information for a LaunchDarkly feature flag and updates when the flag changes.
+ * The detail includes the flag value, variation index, and evaluation reason.
+ * Like the async pipe it holds a single subscription, which is replaced when the key, fallback or client
+ * changes and released when the pipe is destroyed. It marks the view for check on changes, so it works
+ * in OnPush and zoneless components.
+ * 
+ * ## Parameters
+ * 
+ * ### key (required)
+ * - **Type**: `LDFlagKey`
+ * - **Description**: The LaunchDarkly feature flag key to evaluate
+ * 
+ * ### fallback (optional)
+ * - **Type**: `any`
+ * - **Description**: Value to use if the flag is not available. Uses the declared default if omitted.
+ * 
+ * ### client (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use. Uses the default client if not provided.
+ * 
+ * ## Usage Examples
+ * 
+ * ```html
+ * <ng-container *ngIf="'pricing-tier' | ldVariationDetail: 'basic' as tier">
+ *   <span>{{ tier.value }}</span>
+ *   <small *ngIf="tier.reason?.kind === 'ERROR'">Using the default tier</small>
+ * </ng-container>
+ * ```
+ */
+@Pipe({
+  name: 'ldVariationDetail',
+  standalone: true,
+  pure: false
+})
+export class LdVariationDetailPipe extends LdFlagPipe<LDEvaluationDetail | null> implements PipeTransform {
+  transform<KeyT extends LDFlagKey>(key: KeyT | null | undefined, fallback: LDFlagMap[KeyT], client?: string): LDTypedEvaluationDetail<LDFlagMap[KeyT]> | null;
+  transform<KeyT extends LDFlagKey>(key: KeyT | null | undefined, fallback?: LDFlagMap[KeyT], client?: string): LDTypedEvaluationDetail<LDFlagMap[KeyT] | undefined> | null;
+  transform<KeyT extends LDFlagKey>(key: KeyT | null | undefined, fallback?: LDFlagMap[KeyT], client?: string): LDTypedEvaluationDetail<LDFlagMap[KeyT] | undefined> | null {
+    return this.latestResult(key, fallback, client);
+  }
+
+  protected evaluate(service: LaunchDarklyService, key: string, fallback: LDFlagValue): Observable<LDEvaluationDetail> {
+    return service.variationDetail$(key, fallback);
+  }
+
+  protected emptyResult(): LDEvaluationDetail | null {
+    // there is no detail until a key is given
+    return null;
+  }
+}
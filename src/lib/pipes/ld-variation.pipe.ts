@@ -0,0 +1,56 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { Observable } from 'rxjs';
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LdFlagPipe } from './ld-flag-pipe';
+import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+import type { LDFlagKey, LDFlagMap } from '../interfaces/launchdarkly.interface';
+
+/**
+ * Pipe that returns the value of a LaunchDarkly feature flag and updates when the flag changes.
+ * Like the async pipe it holds a single subscription, which is replaced when the key, fallback or client
+ * changes and released when the pipe is destroyed. It marks the view for check on changes, so it works
+ * in OnPush and zoneless components.
+ * 
+ * ## Parameters
+ * 
+ * ### key (required)
+ * - **Type**: `LDFlagKey`
+ * - **Description**: The LaunchDarkly feature flag key to evaluate
+ * 
+ * ### fallback (optional)
+ * - **Type**: `any`
+ * - **Description**: Value to use if the flag is not available. Uses the declared default if omitted.
+ * 
+ * ### client (optional)
+ * - **Type**: `string`
+ * - **Description**: Name of the LaunchDarkly client to use. Uses the default client if not provided.
+ * 
+ * ## Usage Examples
+ * 
+ * ```html
+ * <h1>{{ 'banner-text' | ldVariation: 'Welcome' }}</h1>
+ * <p *ngIf="'max-items' | ldVariation: 5 as maxItems">Up to {{ maxItems }} items</p>
+ * <span>{{ 'partner-copy' | ldVariation: '' : 'partner' }}</span>
+ * ```
+ */
+@Pipe({
+  name: 'ldVariation',
+  standalone: true,
+  pure: false
+})
+export class LdVariationPipe extends LdFlagPipe<LDFlagValue> implements PipeTransform {
+  transform<KeyT extends LDFlagKey>(key: KeyT | null | undefined, fallback: LDFlagMap[KeyT], client?: string): LDFlagMap[KeyT];
+  transform<KeyT extends LDFlagKey>(key: KeyT | null | undefined, fallback?: LDFlagMap[KeyT], client?: string): LDFlagMap[KeyT] | undefined;
+  transform<KeyT extends LDFlagKey>(key: KeyT | null | undefined, fallback?: LDFlagMap[KeyT], client?: string): LDFlagMap[KeyT] | undefined {
+    return this.latestResult(key, fallback, client);
+  }
+
+  protected evaluate(service: LaunchDarklyService, key: string, fallback: LDFlagValue): Observable<LDFlagValue> {
+    return service.variation$(key, fallback);
+  }
+
+  protected emptyResult(fallback: LDFlagValue): LDFlagValue {
+    // the fallback is returned until a key is given
+    return fallback;
+  }
+}
@@ -0,0 +1,315 @@
+import {
+  APP_INITIALIZER,
+  DestroyRef,
+  ENVIRONMENT_INITIALIZER,
+  EnvironmentInjector,
+  EnvironmentProviders,
+  Provider,
+  Type,
+  createEnvironmentInjector,
+  inject,
+  makeEnvironmentProviders
+} from '@angular/core';
+import type { LDFlagSet, LDOptions } from 'launchdarkly-js-client-sdk';
+
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import { LocalStorageFlagCache } from '../services/launchdarkly-flag-cache.service';
+import { DEFAULT_LD_CONFIG, LD_FLAG_CACHE, LD_FLAG_DEFAULTS, LD_FLAG_OVERRIDES, LD_SERVER_FLAG_SOURCE, LD_SERVICE_CONFIG, LD_TRACK_CONFIG } from '../interfaces/launchdarkly.interface';
+import type { LDFlagCache, LDFlagMap, LDServerFlagSource, LDServiceConfig, LDTrackConfig } from '../interfaces/launchdarkly.interface';
+
+/**
+ * The kinds of features that can be passed to {@link provideLaunchDarkly}.
+ */
+export type LaunchDarklyFeatureKind = 'initTimeout' | 'bootstrap' | 'devOverrides' | 'serverRendering' | 'flagCache' | 'flagDefaults' | 'trackingConfig' | 'routeTracking';
+
+/**
+ * A feature that customizes the setup performed by {@link provideLaunchDarkly}.
+ * Features are created with the `with*` functions and should not be built by hand.
+ */
+export interface LaunchDarklyFeature<KindT extends LaunchDarklyFeatureKind = LaunchDarklyFeatureKind> {
+  /** The kind of feature */
+  kind: KindT;
+  /** Configuration merged into the service configuration */
+  config?: Partial<LDServiceConfig>;
+  /** Additional providers registered alongside the service */
+  providers?: Provider[];
+}
+
+/**
+ * Registers LaunchDarkly for a standalone application.
+ * Provides `LD_SERVICE_CONFIG`, the `LaunchDarklyService` and an `APP_INITIALIZER` that waits
+ * for at most `config.timeout` milliseconds (default: 500ms) for LaunchDarkly to be ready.
+ * When the config omits `context` the client is created later by `LaunchDarklyService.start()`
+ * and no initializer is registered.
+ *
+ * When the config has a `name`, a separate service is created for it and registered with the
+ * `LaunchDarklyRegistry` instead of replacing the default `LaunchDarklyService`.
+ *
+ * @param config - LaunchDarkly configuration object
+ * @param features - Optional features created with the `with*` functions
+ * @returns EnvironmentProviders to add to the application or route providers
+ *
+ * @example
+ * ```typescript
+ * bootstrapApplication(AppComponent, {
+ *   providers: [
+ *     provideLaunchDarkly(
+ *       {
+ *         clientId: 'your-client-id',
+ *         context: { key: 'user123', name: 'John Doe' }
+ *       },
+ *       withInitTimeout(200),
+ *       withBootstrap('localStorage')
+ *     )
+ *   ]
+ * });
+ * ```
+ */
+export function provideLaunchDarkly(config: LDServiceConfig, ...features: LaunchDarklyFeature[]): EnvironmentProviders {
+  const serviceConfig = features.reduce<LDServiceConfig>((merged, feature) => ({
+    ...merged,
+    ...feature.config,
+    options: { ...merged.options, ...feature.config?.options } as LDOptions
+  }), config);
+  const timeoutMs = serviceConfig.timeout ?? DEFAULT_LD_CONFIG.timeout;
+  const featureProviders = features.flatMap(feature => feature.providers ?? []);
+
+  if (serviceConfig.name) {
+    return provideNamedLaunchDarkly(serviceConfig.name, serviceConfig, featureProviders, timeoutMs);
+  }
+
+  const providers: Provider[] = [
+    { provide: LD_SERVICE_CONFIG, useValue: serviceConfig },
+    LaunchDarklyService
+  ];
+  // in lazy mode there is no client to wait for during startup
+  if (serviceConfig.context) {
+    providers.push({
+      provide: APP_INITIALIZER,
+      useFactory: LaunchDarklyService.createAppInitializer(timeoutMs),
+      deps: [LaunchDarklyService],
+      multi: true
+    });
+  }
+
+  return makeEnvironmentProviders([
+    ...providers,
+    ...featureProviders
+  ]);
+}
+
+/**
+ * Creates the providers for a named LaunchDarkly service.
+ * The service lives in its own child injector so it gets its own configuration and features
+ * without affecting the default service, and is unregistered when the providing injector is destroyed.
+ *
+ * @param name - The name to register the service with
+ * @param config - LaunchDarkly configuration object with features applied
+ * @param featureProviders - Providers contributed by features
+ * @param timeoutMs - Maximum time to wait for initialization during startup
+ * @returns EnvironmentProviders for the named service
+ */
+function provideNamedLaunchDarkly(
+  name: string,
+  config: LDServiceConfig,
+  featureProviders: Provider[],
+  timeoutMs?: number
+): EnvironmentProviders {
+  const providers: Provider[] = [
+    {
+      provide: ENVIRONMENT_INITIALIZER,
+      multi: true,
+      useValue: () => {
+        const registry = inject(LaunchDarklyRegistry);
+        const injector = createEnvironmentInjector([
+          { provide: LD_SERVICE_CONFIG, useValue: config },
+          // don't inherit overrides, the server flag source, the flag cache or the flag defaults from the
+          // default service, the named client's own features provide them
+          { provide: LD_FLAG_OVERRIDES, useValue: null },
+          { provide: LD_SERVER_FLAG_SOURCE, useValue: null },
+          { provide: LD_FLAG_CACHE, useValue: null },
+          { provide: LD_FLAG_DEFAULTS, useValue: null },
+          LaunchDarklyService,
+          ...featureProviders
+        ], inject(EnvironmentInjector), `LaunchDarkly:${name}`);
+        const service = injector.get(LaunchDarklyService);
+
+        registry.register(name, service);
+        inject(DestroyRef).onDestroy(() => {
+          registry.unregister(name, service);
+          injector.destroy();
+        });
+      }
+    }
+  ];
+  if (config.context) {
+    providers.push({
+      provide: APP_INITIALIZER,
+      useFactory: () => LaunchDarklyService.createAppInitializer(timeoutMs)(inject(LaunchDarklyRegistry).get(name)),
+      multi: true
+    });
+  }
+
+  return makeEnvironmentProviders(providers);
+}
+
+/**
+ * Sets the maximum time the application waits for LaunchDarkly during startup.
+ * The application continues with fallback values once the timeout is reached.
+ *
+ * @param timeoutMs - Maximum time to wait for initialization in milliseconds
+ * @returns A feature for {@link provideLaunchDarkly}
+ *
+ * @example
+ * ```typescript
+ * provideLaunchDarkly(config, withInitTimeout(1000))
+ * ```
+ */
+export function withInitTimeout(timeoutMs: number): LaunchDarklyFeature<'initTimeout'> {
+  return { kind: 'initTimeout', config: { timeout: timeoutMs } };
+}
+
+/**
+ * Bootstraps the LaunchDarkly client with initial flag values so flags are available
+ * before the client has connected.
+ *
+ * @param bootstrap - `'localStorage'` to use the values cached by the SDK, or a set of flag values
+ * @returns A feature for {@link provideLaunchDarkly}
+ *
+ * @example
+ * ```typescript
+ * provideLaunchDarkly(config, withBootstrap('localStorage'))
+ * provideLaunchDarkly(config, withBootstrap({ 'new-feature': true }))
+ * ```
+ */
+export function withBootstrap(bootstrap: 'localStorage' | LDFlagSet): LaunchDarklyFeature<'bootstrap'> {
+  return { kind: 'bootstrap', config: { options: { bootstrap } } as Partial<LDServiceConfig> };
+}
+
+/**
+ * Overrides flag values locally while developing.
+ * Overrides are only applied in dev mode and are ignored in production builds.
+ *
+ * @param overrides - Flag values to return in place of the evaluated values
+ * @returns A feature for {@link provideLaunchDarkly}
+ *
+ * @example
+ * ```typescript
+ * provideLaunchDarkly(config, withDevOverrides({ 'new-checkout': true, 'theme': 'dark' }))
+ * ```
+ */
+export function withDevOverrides(overrides: LDFlagSet): LaunchDarklyFeature<'devOverrides'> {
+  return {
+    kind: 'devOverrides',
+    providers: [{ provide: LD_FLAG_OVERRIDES, useValue: overrides }]
+  };
+}
+
+/**
+ * Enables server-side rendering.
+ * On the server, flags are evaluated through the given source instead of the browser SDK and
+ * transferred to the browser with `TransferState`. The browser renders with the transferred
+ * values and bootstraps the client with them, so the first paint matches the server output.
+ *
+ * @param source - A server flag source, an injectable class implementing it, or a set of
+ *   flag values (e.g. bootstrap JSON produced by a server-side SDK)
+ * @returns A feature for {@link provideLaunchDarkly}
+ *
+ * @example
+ * ```typescript
+ * // app.config.server.ts
+ * provideLaunchDarkly(config, withServerRendering(ServerFlagSource))
+ *
+ * @Injectable()
+ * export class ServerFlagSource implements LDServerFlagSource {
+ *   private ldServer = inject(LD_SERVER_CLIENT);
+ *   async allFlags(context: LDContext) {
+ *     return (await this.ldServer.allFlagsState(context, { clientSideOnly: true })).toJSON();
+ *   }
+ * }
+ * ```
+ */
+export function withServerRendering(source: LDServerFlagSource | Type<LDServerFlagSource> | LDFlagSet): LaunchDarklyFeature<'serverRendering'> {
+  let provider: Provider;
+  if (typeof source === 'function') {
+    provider = { provide: LD_SERVER_FLAG_SOURCE, useClass: source as Type<LDServerFlagSource> };
+  } else if (typeof source['allFlags'] === 'function') {
+    provider = { provide: LD_SERVER_FLAG_SOURCE, useValue: source };
+  } else {
+    const flags = source as LDFlagSet;
+    provider = { provide: LD_SERVER_FLAG_SOURCE, useValue: { allFlags: () => flags } };
+  }
+  return { kind: 'serverRendering', providers: [provider] };
+}
+
+/**
+ * Persists the last known flags of each context and serves them while the client initializes
+ * (stale-while-revalidate). Cached values are reported with the reason kind `'CACHED'` and are
+ * replaced by the live values once the client is ready; change events are only emitted for flags
+ * whose live value differs from the cached one. Contexts without a key aren't cached, since the
+ * key the SDK generates for them isn't known on the next startup.
+ *
+ * @param cache - A flag cache, or an injectable class implementing it. Defaults to `localStorage`.
+ * @returns A feature for {@link provideLaunchDarkly}
+ *
+ * @example
+ * ```typescript
+ * provideLaunchDarkly(config, withFlagCache())
+ * provideLaunchDarkly(config, withFlagCache(IndexedDbFlagCache))
+ * ```
+ */
+export function withFlagCache(cache: LDFlagCache | Type<LDFlagCache> = LocalStorageFlagCache): LaunchDarklyFeature<'flagCache'> {
+  const provider: Provider = typeof cache === 'function'
+    ? { provide: LD_FLAG_CACHE, useClass: cache }
+    : { provide: LD_FLAG_CACHE, useValue: cache };
+  return { kind: 'flagCache', providers: [provider] };
+}
+
+/**
+ * Declares the default value of each flag.
+ * Defaults are used by the service and the directives when no fallback is passed.
+ *
+ * @param defaults - The default value of each flag
+ * @returns A feature for {@link provideLaunchDarkly}
+ *
+ * @example
+ * ```typescript
+ * export const appFlagDefaults = {
+ *   'checkout-v2': false,
+ *   'theme': 'light' as 'light' | 'dark'
+ * };
+ * export type AppFlags = typeof appFlagDefaults;
+ *
+ * provideLaunchDarkly(config, withFlagDefaults<AppFlags>(appFlagDefaults))
+ * ```
+ */
+export function withFlagDefaults<FlagsT extends object = LDFlagMap>(defaults: Partial<FlagsT>): LaunchDarklyFeature<'flagDefaults'> {
+  return {
+    kind: 'flagDefaults',
+    providers: [{ provide: LD_FLAG_DEFAULTS, useValue: defaults }]
+  };
+}
+
+/**
+ * Configures the data that `ldTrack` sends with each event: which element fields are added,
+ * whether the event type is added, and a hook that scrubs the data before it is tracked.
+ * Pass it to the default client's `provideLaunchDarkly`, the providers of named clients aren't visible to directives.
+ *
+ * @param config - The tracking configuration
+ * @returns A feature for {@link provideLaunchDarkly}
+ *
+ * @example
+ * ```typescript
+ * provideLaunchDarkly(config, withTrackingConfig({
+ *   elementFields: ['tagName', 'id'],
+ *   scrub: data => omit(data, ['email', 'phone'])
+ * }))
+ * ```
+ */
+export function withTrackingConfig(config: LDTrackConfig): LaunchDarklyFeature<'trackingConfig'> {
+  return {
+    kind: 'trackingConfig',
+    providers: [{ provide: LD_TRACK_CONFIG, useValue: config }]
+  };
+}
@@ -0,0 +1,96 @@
+import { inject } from '@angular/core';
+import { CanActivateChildFn, CanActivateFn, CanMatchFn, Router, UrlTree } from '@angular/router';
+import { Observable, map, switchMap, take } from 'rxjs';
+
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import { DEFAULT_LD_CONFIG } from '../interfaces/launchdarkly.interface';
+import type { LDFlagKey, LDFlagMap } from '../interfaces/launchdarkly.interface';
+
+/**
+ * Options for {@link ldFlagGuard}
+ */
+export interface LdFlagGuardOptions<ValueT> {
+  /**
+   * The expected flag value, or a predicate the flag value must pass.
+   * If not provided, the route is allowed when the flag is truthy.
+   */
+  value?: ValueT | ((value: ValueT) => boolean);
+  /** Where to navigate when the flag doesn't match. If not provided, navigation is cancelled. */
+  redirectTo?: string | UrlTree;
+  /** Maximum time to wait for initialization in milliseconds (default: 500ms) */
+  timeoutMs?: number;
+  /** Value to use if the flag is not available. Uses the declared default if omitted. */
+  fallback?: ValueT;
+  /** Name of the LaunchDarkly client to use. Uses the default client if not provided. */
+  client?: string;
+}
+
+/**
+ * Creates a functional guard that allows navigation based on a LaunchDarkly feature flag.
+ * The guard waits for at most `timeoutMs` for the client to initialize (like `waitForInitialization$`),
+ * then evaluates the flag once. When the timeout is reached the fallback value is used.
+ *
+ * The guard can be used for `canActivate`, `canActivateChild` and `canMatch`.
+ *
+ * @param key - The feature flag key
+ * @param options - Expected value or predicate, redirect, timeout, fallback and client
+ * @returns A guard function
+ *
+ * @example
+ * ```typescript
+ * const routes: Routes = [
+ *   {
+ *     path: 'checkout',
+ *     canMatch: [ldFlagGuard('checkout-v2')],
+ *     loadComponent: () => import('./checkout-v2.component')
+ *   },
+ *   {
+ *     path: 'admin',
+ *     canActivate: [ldFlagGuard('user-tier', { value: tier => tier !== 'basic', redirectTo: '/upgrade' })],
+ *     loadChildren: () => import('./admin.routes')
+ *   }
+ * ];
+ * ```
+ */
+export function ldFlagGuard<KeyT extends LDFlagKey>(
+  key: KeyT,
+  options: LdFlagGuardOptions<LDFlagMap[KeyT]> = {}
+): CanActivateFn & CanActivateChildFn & CanMatchFn {
+  return (): Observable<boolean | UrlTree> => {
+    const router = inject(Router);
+    // the nearest service without a name, so the guard works with provideLaunchDarkly in route providers
+    const ldService = options.client ? inject(LaunchDarklyRegistry).get(options.client) : inject(LaunchDarklyService);
+
+    return ldService.waitForInitialization$(options.timeoutMs ?? DEFAULT_LD_CONFIG.timeout ?? 500).pipe(
+      take(1),
+      switchMap(() => ldService.variation$(key, options.fallback).pipe(take(1))),
+      map(value => {
+        if (matches(value, options.value)) {
+          return true;
+        }
+        if (options.redirectTo === undefined) {
+          return false;
+        }
+        return typeof options.redirectTo === 'string' ? router.parseUrl(options.redirectTo) : options.redirectTo;
+      })
+    );
+  };
+}
+
+/**
+ * Checks a flag value against the expected value or predicate of a guard.
+ *
+ * @param value - The flag value
+ * @param expected - The expected value or predicate
+ * @returns true if the flag value matches
+ */
+function matches<ValueT>(value: ValueT, expected?: ValueT | ((value: ValueT) => boolean)): boolean {
+  if (expected === undefined) {
+    return !!value;
+  }
+  if (typeof expected === 'function') {
+    return (expected as (value: ValueT) => boolean)(value);
+  }
+  return value === expected;
+}
@@ -0,0 +1,96 @@
+import { DestroyRef, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { NavigationStart, ResolveFn, Router } from '@angular/router';
+import { Observable, Subscription, defaultIfEmpty, filter, forkJoin, merge, skip, switchMap, take, takeUntil, tap } from 'rxjs';
+import type { LDFlagSet } from 'launchdarkly-js-client-sdk';
+
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import { DEFAULT_LD_CONFIG } from '../interfaces/launchdarkly.interface';
+import type { LDFlagKey, LDFlagMap } from '../interfaces/launchdarkly.interface';
+
+/**
+ * Options for {@link ldFlagsResolver}
+ */
+export interface LdFlagsResolverOptions {
+  /** Maximum time to wait for initialization in milliseconds (default: 500ms) */
+  timeoutMs?: number;
+  /**
+   * Re-resolve when one of the requested flags changes, so the route data stays live.
+   * The route needs `runGuardsAndResolvers: 'always'` for the reload to re-run the resolver.
+   */
+  live?: boolean;
+  /** Name of the LaunchDarkly client to use. Uses the default client if not provided. */
+  client?: string;
+}
+
+/**
+ * The flag values resolved by {@link ldFlagsResolver}
+ */
+export type LdResolvedFlags<FallbacksT> = {
+  [KeyT in keyof FallbacksT]: KeyT extends LDFlagKey ? LDFlagMap[KeyT] : never;
+};
+
+/**
+ * Creates a resolver that snapshots several flags onto the route data.
+ * The resolver waits for at most `timeoutMs` for the client to initialize (like `waitForInitialization$`),
+ * then evaluates every requested flag, using its fallback when the flag isn't available.
+ *
+ * @param fallbacks - The flags to resolve with their fallback values
+ * @param options - Timeout, live mode and client
+ * @returns A resolver function
+ *
+ * @example
+ * ```typescript
+ * {
+ *   path: 'pricing',
+ *   component: PricingComponent,
+ *   runGuardsAndResolvers: 'always',
+ *   resolve: {
+ *     flags: ldFlagsResolver({ 'pricing-layout': 'grid', 'max-seats': 5 }, { timeoutMs: 1000, live: true })
+ *   }
+ * }
+ *
+ * // in PricingComponent
+ * readonly flags$ = inject(ActivatedRoute).data.pipe(map(data => data['flags']));
+ * ```
+ */
+export function ldFlagsResolver<FallbacksT extends { [KeyT in LDFlagKey]?: LDFlagMap[KeyT] }>(
+  fallbacks: FallbacksT,
+  options: LdFlagsResolverOptions = {}
+): ResolveFn<LdResolvedFlags<FallbacksT>> {
+  const fallbackSet = fallbacks as LDFlagSet;
+  const keys = Object.keys(fallbackSet);
+  // keyed by router, so each app (e.g. each server-side rendered request) has its own live subscription
+  const liveSubscriptions = new WeakMap<Router, Subscription>();
+
+  return (): Observable<LdResolvedFlags<FallbacksT>> => {
+    const router = inject(Router);
+    const destroyRef = inject(DestroyRef);
+    // the nearest service without a name, so the resolver works with provideLaunchDarkly in route providers
+    const ldService = options.client ? inject(LaunchDarklyRegistry).get(options.client) : inject(LaunchDarklyService);
+
+    return ldService.waitForInitialization$(options.timeoutMs ?? DEFAULT_LD_CONFIG.timeout ?? 500).pipe(
+      take(1),
+      switchMap(() => forkJoin(Object.fromEntries(
+        keys.map(key => [key, ldService.variation$(key, fallbackSet[key]).pipe(take(1))])
+      )).pipe(
+        defaultIfEmpty({})
+      ) as Observable<LdResolvedFlags<FallbacksT>>),
+      tap(() => {
+        if (!options.live) {
+          return;
+        }
+        liveSubscriptions.get(router)?.unsubscribe();
+        // the next navigation re-runs the resolver if the route is still active, which resubscribes
+        liveSubscriptions.set(router, merge(...keys.map(key => ldService.variation$(key, fallbackSet[key]).pipe(skip(1)))).pipe(
+          take(1),
+          takeUntil(router.events.pipe(filter(event => event instanceof NavigationStart))),
+          takeUntilDestroyed(destroyRef)
+        ).subscribe(() => {
+          router.navigateByUrl(router.url, { onSameUrlNavigation: 'reload' });
+        }));
+      })
+    );
+  };
+}
@@ -0,0 +1,124 @@
+import { DestroyRef, ENVIRONMENT_INITIALIZER, inject } from '@angular/core';
+import { ActivatedRouteSnapshot, NavigationEnd, Router } from '@angular/router';
+import { filter } from 'rxjs';
+
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import type { LaunchDarklyFeature } from '../providers/launchdarkly.providers';
+
+/**
+ * Options for {@link withRouteTracking}
+ */
+export interface LdRouteTrackingOptions {
+  /** Event key to track on each navigation (default: `'page-view'`) */
+  eventKey?: string;
+  /**
+   * Route data added to the event data as `data`: `true` for all data of the activated route,
+   * or the keys to add. If not provided, no route data is added.
+   */
+  data?: boolean | string[];
+  /**
+   * Which consecutive navigations are tracked only once:
+   * - `'url'` - navigations to the same URL, e.g. reloads (default)
+   * - `'path'` - navigations that stay on the same route, e.g. `/products/1` to `/products/2` or query changes
+   * - `false` - every navigation is tracked
+   */
+  dedupe?: 'url' | 'path' | false;
+}
+
+/**
+ * Tracks a page view with `LaunchDarklyService.track` after each successful navigation.
+ * The event data contains the route path template (e.g. `'/products/:id'`), not the URL, so IDs and query
+ * parameters don't end up in the events, and optionally data of the activated route.
+ *
+ * The events are tracked with the client the feature is passed to, so a named client tracks its own page views.
+ *
+ * @param options - Event key, route data and deduplication rule
+ * @returns A feature for {@link provideLaunchDarkly}
+ *
+ * @example
+ * ```typescript
+ * provideLaunchDarkly(config, withRouteTracking({ eventKey: 'page-view', data: ['section'], dedupe: 'path' }))
+ *
+ * // navigating to /products/42 tracks
+ * // 'page-view', { path: '/products/:id', data: { section: 'catalog' } }
+ * ```
+ */
+export function withRouteTracking(options: LdRouteTrackingOptions = {}): LaunchDarklyFeature<'routeTracking'> {
+  const eventKey = options.eventKey ?? 'page-view';
+  const dedupe = options.dedupe ?? 'url';
+
+  return {
+    kind: 'routeTracking',
+    providers: [
+      {
+        provide: ENVIRONMENT_INITIALIZER,
+        multi: true,
+        useValue: () => {
+          const router = inject(Router);
+          const ldService = inject(LaunchDarklyService);
+          let lastTracked: string | undefined;
+
+          const subscription = router.events.pipe(
+            filter((event): event is NavigationEnd => event instanceof NavigationEnd)
+          ).subscribe(event => {
+            const root = router.routerState.snapshot.root;
+            const path = routePath(root);
+            const dedupeKey = dedupe === 'url' ? event.urlAfterRedirects : dedupe === 'path' ? path : undefined;
+            if (dedupeKey !== undefined && dedupeKey === lastTracked) {
+              return;
+            }
+            lastTracked = dedupeKey;
+
+            const data = options.data ? routeData(activatedRoute(root), options.data) : undefined;
+            ldService.track(eventKey, data ? { path, data } : { path });
+          });
+          inject(DestroyRef).onDestroy(() => subscription.unsubscribe());
+        }
+      }
+    ]
+  };
+}
+
+/**
+ * Returns the deepest activated route of the primary outlet.
+ *
+ * @param root - The root route snapshot
+ * @returns The activated route snapshot
+ */
+function activatedRoute(root: ActivatedRouteSnapshot): ActivatedRouteSnapshot {
+  let route = root;
+  while (route.firstChild) {
+    route = route.firstChild;
+  }
+  return route;
+}
+
+/**
+ * Builds the path template of the activated route from the configured paths of the primary outlet.
+ *
+ * @param root - The root route snapshot
+ * @returns The path template, e.g. `'/products/:id'`
+ */
+function routePath(root: ActivatedRouteSnapshot): string {
+  const segments: string[] = [];
+  for (let route: ActivatedRouteSnapshot | null = root; route; route = route.firstChild) {
+    if (route.routeConfig?.path) {
+      segments.push(route.routeConfig.path);
+    }
+  }
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * Picks the tracked data of a route.
+ *
+ * @param route - The activated route snapshot
+ * @param keys - `true` for all data, or the keys to pick
+ * @returns The route data to track
+ */
+function routeData(route: ActivatedRouteSnapshot, keys: true | string[]): Record<string, unknown> {
+  if (keys === true) {
+    return { ...route.data };
+  }
+  return Object.fromEntries(keys.filter(key => key in route.data).map(key => [key, route.data[key]]));
+}
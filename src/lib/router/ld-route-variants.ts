@@ -0,0 +1,163 @@
+import { inject } from '@angular/core';
+import { CanMatchFn, Route, Router } from '@angular/router';
+import { Observable, map, of, shareReplay, switchMap, take, tap } from 'rxjs';
+
+import { LaunchDarklyService } from '../services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../services/launchdarkly-registry.service';
+import { DEFAULT_LD_CONFIG } from '../interfaces/launchdarkly.interface';
+import type { LDFlagKey } from '../interfaces/launchdarkly.interface';
+
+/**
+ * A variant of a route: a component loader, or an object with `loadComponent` or `loadChildren`
+ */
+export type LdRouteVariant = NonNullable<Route['loadComponent']> | Pick<Route, 'loadComponent'> | Pick<Route, 'loadChildren'>;
+
+/**
+ * The variant served by {@link ldRouteVariants}, available on the route data as `ldVariant`
+ */
+export interface LdServedVariant {
+  /** The feature flag key */
+  flag: string;
+  /** The name of the served variant */
+  variant: string;
+}
+
+/**
+ * Options for {@link ldRouteVariants}
+ */
+export interface LdRouteVariantsOptions {
+  /** Path of the variant routes (default: `''`) */
+  path?: string;
+  /** Maximum time to wait for initialization in milliseconds (default: 500ms) */
+  timeoutMs?: number;
+  /**
+   * Event key to track when a variant is served. The event data contains the flag key and the variant.
+   * If not provided, nothing is tracked.
+   */
+  trackEvent?: string;
+  /** Name of the LaunchDarkly client to use. Uses the default client if not provided. */
+  client?: string;
+}
+
+/**
+ * Creates routes that load a different component or child routes for the same URL depending on a string flag.
+ * Each variant becomes a route with a `canMatch` guard that matches when the flag serves that variant. The default
+ * variant is used when the flag serves a value without a variant, or isn't available after `timeoutMs`.
+ * The flag is resolved once per navigation and shared by the guards, so the timeout applies only once.
+ *
+ * The served variant is added to the route data as `ldVariant` and is tracked with `LaunchDarklyService.track`
+ * when `trackEvent` is provided.
+ *
+ * @param key - The feature flag key
+ * @param variants - Loaders by flag value
+ * @param defaultVariant - The variant to serve when the flag value has no loader
+ * @param options - Path, timeout, track event and client
+ * @returns The variant routes
+ *
+ * @example
+ * ```typescript
+ * const routes: Routes = [
+ *   {
+ *     path: 'checkout',
+ *     children: ldRouteVariants('checkout-layout', {
+ *       control: () => import('./checkout.component').then(m => m.CheckoutComponent),
+ *       treatment: { loadChildren: () => import('./checkout-v2.routes') }
+ *     }, 'control', { trackEvent: 'checkout-layout-served' })
+ *   }
+ * ];
+ * ```
+ */
+export function ldRouteVariants<VariantsT extends Record<string, LdRouteVariant>>(
+  key: LDFlagKey,
+  variants: VariantsT,
+  defaultVariant: Extract<keyof VariantsT, string>,
+  options: LdRouteVariantsOptions = {}
+): Route[] {
+  const names = Object.keys(variants);
+  // the default variant goes last and always matches, so the URL can't end up without a route
+  const ordered = [...names.filter(name => name !== defaultVariant), defaultVariant];
+  // keyed by router, navigation ids restart for each router (e.g. each server-side rendered request)
+  const resolved = new WeakMap<Router, ResolvedFlag>();
+
+  return ordered.map(variant => {
+    const loader = variants[variant];
+    const route: Route = typeof loader === 'function' ? { loadComponent: loader } : { ...loader };
+    const served: LdServedVariant = { flag: key, variant };
+    return {
+      ...route,
+      path: options.path ?? '',
+      canMatch: [variantGuard(key, variant, variant === defaultVariant, options, resolved)],
+      data: { ldVariant: served }
+    };
+  });
+}
+
+/**
+ * The flag value resolved for a navigation
+ */
+interface ResolvedFlag {
+  navigationId: number;
+  value$: Observable<unknown>;
+}
+
+/**
+ * Creates the `canMatch` guard of a variant route.
+ *
+ * @param key - The feature flag key
+ * @param variant - The variant of the route
+ * @param isDefault - Whether this is the default variant, which always matches
+ * @param options - Timeout, track event and client
+ * @param resolved - The flag values resolved by the sibling guards, by router
+ * @returns The guard function
+ */
+function variantGuard(
+  key: string,
+  variant: string,
+  isDefault: boolean,
+  options: LdRouteVariantsOptions,
+  resolved: WeakMap<Router, ResolvedFlag>
+): CanMatchFn {
+  return (): Observable<boolean> => {
+    // the nearest service without a name, so the variant guards work with provideLaunchDarkly in route providers
+    const ldService = options.client ? inject(LaunchDarklyRegistry).get(options.client) : inject(LaunchDarklyService);
+
+    const matches$ = isDefault
+      ? of(true)
+      : resolveFlag(inject(Router), resolved, () => ldService.waitForInitialization$(options.timeoutMs ?? DEFAULT_LD_CONFIG.timeout ?? 500).pipe(
+        take(1),
+        switchMap(() => ldService.variation$(key).pipe(take(1)))
+      )).pipe(
+        map(value => value === variant)
+      );
+
+    return matches$.pipe(
+      tap(matched => {
+        if (matched && options.trackEvent) {
+          ldService.track(options.trackEvent, { flag: key, variant });
+        }
+      })
+    );
+  };
+}
+
+/**
+ * Returns the flag value of the current navigation, resolving it only for the first guard of the navigation.
+ *
+ * @param router - The router of the navigation
+ * @param resolved - The flag values resolved by the sibling guards, by router
+ * @param resolve - Resolves the flag value
+ * @returns Observable that emits the flag value once
+ */
+function resolveFlag(router: Router, resolved: WeakMap<Router, ResolvedFlag>, resolve: () => Observable<unknown>): Observable<unknown> {
+  const navigationId = router.getCurrentNavigation()?.id;
+  if (navigationId === undefined) {
+    return resolve();
+  }
+  const current = resolved.get(router);
+  if (current?.navigationId === navigationId) {
+    return current.value$;
+  }
+  const value$ = resolve().pipe(shareReplay(1));
+  resolved.set(router, { navigationId, value$ });
+  return value$;
+}
@@ -0,0 +1,71 @@
+import { Injectable } from '@angular/core';
+import type { LDContext, LDFlagSet } from 'launchdarkly-js-client-sdk';
+
+import type { LDFlagCache } from '../interfaces/launchdarkly.interface';
+
+/**
+ * Flag cache backed by `localStorage`.
+ * Used by `withFlagCache()` when no custom cache is given. Storage errors (quota exceeded,
+ * storage disabled in private browsing) are logged and otherwise ignored.
+ */
+@Injectable()
+export class LocalStorageFlagCache implements LDFlagCache {
+  private static readonly prefix = 'ld-angular:flags:';
+
+  /**
+   * Reads the cached flags for a cache key.
+   *
+   * @param key - The cache key
+   * @returns The cached flags, or null if nothing is cached
+   */
+  get(key: string): LDFlagSet | null {
+    try {
+      const stored = globalThis.localStorage?.getItem(LocalStorageFlagCache.prefix + key);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('[LaunchDarkly Flag Cache] Failed to read cached flags:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Writes the flags for a cache key.
+   *
+   * @param key - The cache key
+   * @param flags - The flags to cache
+   */
+  set(key: string, flags: LDFlagSet): void {
+    try {
+      globalThis.localStorage?.setItem(LocalStorageFlagCache.prefix + key, JSON.stringify(flags));
+    } catch (error) {
+      console.warn('[LaunchDarkly Flag Cache] Failed to write cached flags:', error);
+    }
+  }
+}
+
+/**
+ * Builds the cache key for a client-side ID and context.
+ * Multi-kind contexts use all of their kinds and keys, so the same user in a different
+ * organization doesn't share cached flags. Contexts without a key (anonymous contexts whose
+ * key is generated by the SDK) aren't cached, since their key isn't known before the client starts.
+ *
+ * @param clientId - LaunchDarkly client-side ID
+ * @param context - User context for flag evaluation
+ * @returns The cache key, or undefined if a context has no key
+ */
+export function flagCacheKey(clientId: string, context: LDContext): string | undefined {
+  const ctx = context as Record<string, unknown>;
+  if (ctx['kind'] === 'multi') {
+    const kinds = Object.entries(ctx)
+      .filter(([kind]) => kind !== 'kind')
+      .map(([kind, value]) => [kind, (value as { key?: string }).key]);
+    if (kinds.some(([, key]) => !key)) {
+      return undefined;
+    }
+    return `${clientId}:${kinds.map(([kind, key]) => `${kind}:${key}`).sort().join(',')}`;
+  }
+  if (!ctx['key']) {
+    return undefined;
+  }
+  return `${clientId}:${ctx['kind'] ?? 'user'}:${ctx['key']}`;
+}
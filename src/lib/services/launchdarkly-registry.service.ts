@@ -0,0 +1,109 @@
+import { Injectable, Injector, inject } from '@angular/core';
+
+import { LaunchDarklyService } from './launchdarkly.service';
+import type { LDFlagMap } from '../interfaces/launchdarkly.interface';
+
+/**
+ * Registry of the LaunchDarkly services available in the application.
+ * The default service is the one configured without a name; additional services are registered
+ * by `provideLaunchDarkly({ name: '...', ... })` and can target a different LaunchDarkly project or environment.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * providers: [
+ *   provideLaunchDarkly({ clientId: 'host-client-id', context }),
+ *   provideLaunchDarkly({ name: 'partner', clientId: 'partner-client-id', context })
+ * ]
+ *
+ * // in your component
+ * private partnerLd = inject(LaunchDarklyRegistry).get('partner');
+ * ```
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LaunchDarklyRegistry {
+  private services = new Map<string, LaunchDarklyService>();
+
+  private injector = inject(Injector);
+
+  /**
+   * Gets a LaunchDarkly service by name.
+   *
+   * The flag map of the client can be passed as type argument, since a named client usually
+   * targets a project with different flags.
+   *
+   * @param name - The name the service was registered with. Omit for the default service.
+   * @returns The LaunchDarklyService for the given name
+   *
+   * @throws Will throw an error if no service is registered with the given name
+   */
+  get<FlagsT extends object = LDFlagMap>(name?: string): LaunchDarklyService<FlagsT> {
+    if (!name) {
+      return this.injector.get<LaunchDarklyService<FlagsT>>(LaunchDarklyService);
+    }
+    const service = this.services.get(name);
+    if (!service) {
+      throw new Error(`[LaunchDarkly Registry] No LaunchDarkly client registered with name "${name}". Please ensure provideLaunchDarkly({ name: '${name}', ... }) is provided.`);
+    }
+    return service as LaunchDarklyService<FlagsT>;
+  }
+
+  /**
+   * Checks whether a named LaunchDarkly service is registered.
+   *
+   * @param name - The name of the service
+   * @returns true if a service is registered with the given name
+   */
+  has(name: string): boolean {
+    return this.services.has(name);
+  }
+
+  /**
+   * Registers a named LaunchDarkly service.
+   * Called by provideLaunchDarkly when a named configuration is provided.
+   *
+   * @param name - The name of the service
+   * @param service - The LaunchDarklyService instance
+   */
+  register(name: string, service: LaunchDarklyService): void {
+    if (this.services.has(name)) {
+      console.error(`[LaunchDarkly Registry] a client named "${name}" is already registered, skipping. please ensure each name is only provided once.`);
+      return;
+    }
+    this.services.set(name, service);
+  }
+
+  /**
+   * Unregisters a named LaunchDarkly service.
+   * Called when the injector that provided the service is destroyed.
+   *
+   * @param name - The name of the service
+   * @param service - The LaunchDarklyService instance that was registered
+   */
+  unregister(name: string, service: LaunchDarklyService): void {
+    if (this.services.get(name) === service) {
+      this.services.delete(name);
+    }
+  }
+}
+
+/**
+ * Injects a LaunchDarkly service typed with a flag map.
+ * `inject(LaunchDarklyService)` can't infer the type argument of the service, so use this
+ * function (or annotate the field) to get type-checked flag keys and values.
+ * Must be called in an injection context.
+ *
+ * @param name - The name of the client. Omit for the default client.
+ * @returns The LaunchDarklyService for the given name
+ *
+ * @example
+ * ```typescript
+ * private ldService = injectLaunchDarkly();                    // typed by the augmented LDFlags
+ * private partnerLd = injectLaunchDarkly<PartnerFlags>('partner');
+ * ```
+ */
+export function injectLaunchDarkly<FlagsT extends object = LDFlagMap>(name?: string): LaunchDarklyService<FlagsT> {
+  return inject(LaunchDarklyRegistry).get<FlagsT>(name);
+}
@@ -1,5 +1,7 @@
-import { Injectable, NgZone, inject } from '@angular/core';
-import { BehaviorSubject, Observable, distinctUntilChanged, map, switchMap, filter, startWith, catchError, concatMap, take, Subject, timer, race, firstValueFrom } from 'rxjs';
+import { DestroyRef, Injectable, NgZone, PLATFORM_ID, Signal, TransferState, WritableSignal, computed, inject, isDevMode, makeStateKey, signal } from '@angular/core';
+import { isPlatformServer } from '@angular/common';
+import { takeUntilDestroyed, toSignal } from '@angular/core/rxjs-interop';
+import { BehaviorSubject, Observable, distinctUntilChanged, map, switchMap, filter, startWith, catchError, concatMap, take, Subject, timer, race, firstValueFrom, merge, skip } from 'rxjs';
 import {
   initialize,
   type LDClient,
@@ -7,11 +9,15 @@ import {
   type LDFlagValue,
   type LDOptions,
   type LDEvaluationDetail,
+  type LDFlagSet,
   LDFlagChangeset
 } from 'launchdarkly-js-client-sdk';
 import equal from 'fast-deep-equal';
 
-import { FlagChangeEvent, LD_SERVICE_CONFIG, LDServiceConfig } from '../interfaces/launchdarkly.interface';
+import { FlagChangeEvent, LD_FLAG_CACHE, LD_FLAG_DEFAULTS, LD_FLAG_OVERRIDES, LD_SERVER_FLAG_SOURCE, LD_SERVICE_CONFIG, LDServiceConfig } from '../interfaces/launchdarkly.interface';
+import type { LDFlagConditions, LDFlagKey, LDFlagMap, LDKeyedFlagCondition, LDTypedEvaluationDetail } from '../interfaces/launchdarkly.interface';
+import { flagCacheKey } from './launchdarkly-flag-cache.service';
+import { matchesCondition } from '../utils/flag-conditions';
 
 /**
  * LaunchDarkly service for Angular applications.
@@ -30,21 +36,126 @@ import { FlagChangeEvent, LD_SERVICE_CONFIG, LDServiceConfig } from '../interfac
  *   });
  * }
  * ```
+ *
+ * Flag keys and values are typed by the {@link LDFlags} interface when it is augmented,
+ * or by the flag map passed as type argument:
+ *
+ * ```typescript
+ * private ldService = injectLaunchDarkly<AppFlags>();
+ *
+ * // Observable<boolean>, a typo in the key doesn't compile
+ * readonly checkoutV2$ = this.ldService.variation$('checkout-v2');
+ * ```
  */
 @Injectable({
   providedIn: 'root'
 })
-export class LaunchDarklyService {
+export class LaunchDarklyService<FlagsT extends object = LDFlagMap> {
   private clientSubject$ = new BehaviorSubject<LDClient | undefined>(undefined);
   private isInitializedSubject$ = new BehaviorSubject<boolean>(false);
   private goalsReadySubject$ = new BehaviorSubject<boolean>(false);
   private flagChangesSubject$ = new Subject<FlagChangeEvent>();
+  private contextSubject$ = new BehaviorSubject<LDContext | undefined>(undefined);
 
   private zone = inject(NgZone);
   private config : LDServiceConfig = inject(LD_SERVICE_CONFIG);
+  // overrides are a development aid only and are ignored in production builds
+  private overrides: LDFlagSet | null = isDevMode() ? inject(LD_FLAG_OVERRIDES, { optional: true }) : null;
+  private flagDefaults = inject(LD_FLAG_DEFAULTS, { optional: true });
+  private destroyRef = inject(DestroyRef);
+  private isServer = isPlatformServer(inject(PLATFORM_ID));
+  private transferState = inject(TransferState);
+  private serverFlagSource = inject(LD_SERVER_FLAG_SOURCE, { optional: true });
+  private flagsStateKey = makeStateKey<LDFlagSet>(`launchdarkly-flags:${this.config.name ?? 'default'}`);
+  // flags evaluated on the server, used until a client is available and to bootstrap the client
+  private serverFlags?: LDFlagSet;
+  private flagCache = inject(LD_FLAG_CACHE, { optional: true });
+  // last known flags for the context, used until the client has initialized
+  private cachedFlags?: LDFlagSet;
+
+  // per-flag change counters that signal evaluations depend on, fed by the same change stream as variation$
+  private flagVersions = new Map<string, WritableSignal<number>>();
+  private allFlagsVersion = signal(0);
+  private client = toSignal(this.clientSubject$, { requireSync: true });
+
+  /**
+   * Signal that is true once the LaunchDarkly client has initialized.
+   *
+   * @example
+   * ```typescript
+   * readonly ready = this.ldService.isInitialized;
+   * ```
+   */
+  readonly isInitialized: Signal<boolean> = toSignal(this.isInitializedSubject$, { requireSync: true });
+
+  /**
+   * Signal that is true once the LaunchDarkly client has loaded its experimentation goals.
+   */
+  readonly goalsReady: Signal<boolean> = toSignal(this.goalsReadySubject$, { requireSync: true });
+
+  /**
+   * Signal of all flag values for the current context.
+   * Emits an empty set until the client is available and updates whenever any flag changes.
+   *
+   * @example
+   * ```typescript
+   * readonly flagCount = computed(() => Object.keys(this.ldService.allFlags()).length);
+   * ```
+   */
+  readonly allFlags: Signal<LDFlagSet> = computed(() => {
+    this.allFlagsVersion();
+    const flags = this.cachedFlags ?? this.client()?.allFlags() ?? flagValues(this.serverFlags);
+    return this.overrides ? { ...flags, ...this.overrides } : flags;
+  }, { equal });
 
   constructor() {
-    this._initialize(this.config.clientId, this.config.context, this.config.options);
+    this.flagChangesSubject$.pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(({ key }) => {
+      this.flagVersions.get(key)?.update(version => version + 1);
+      this.allFlagsVersion.update(version => version + 1);
+    });
+    // hydrate from the flags the server rendered with so the first paint matches the server output
+    if (!this.isServer && this.transferState.hasKey(this.flagsStateKey)) {
+      this.serverFlags = this.transferState.get(this.flagsStateKey, {});
+      this.transferState.remove(this.flagsStateKey);
+    }
+    // without a context the client is created lazily by start()
+    if (this.config.context) {
+      this.start(this.config.context);
+    }
+  }
+
+  /**
+   * Creates the LaunchDarkly client for the given context.
+   * Only needed in lazy mode, when `LD_SERVICE_CONFIG` omits the context. Until then
+   * `variation$` emits fallback values and `variationDetail$` reports `CLIENT_NOT_READY`.
+   * 
+   * @param context - User context for flag evaluation
+   * 
+   * @throws Will log an error if the client has already been created; use setContext to change contexts
+   * 
+   * @example
+   * ```typescript
+   * this.auth.user$.pipe(take(1)).subscribe(user => {
+   *   this.ldService.start({ kind: 'user', key: user.id, name: user.name });
+   * });
+   * ```
+   */
+  start(context: LDContext): void {
+    // a started client (or server evaluation) keeps its context and cached flags
+    if (this.clientSubject$.value || this.contextSubject$.value) {
+      console.error('[LaunchDarkly Service] start called after LD already started, skipping. Use setContext to change the context.');
+      return;
+    }
+    this.contextSubject$.next(context);
+    // the browser SDK can't run on the server, evaluate flags through the server flag source instead
+    if (this.isServer) {
+      this._initializeServer(context);
+      return;
+    }
+    this.seedFromCache(context);
+    this._initialize(this.config.clientId, context, this.config.options);
   }
 
   /**
@@ -92,6 +203,17 @@ export class LaunchDarklyService {
     return this.clientSubject$.asObservable();
   }
 
+  /**
+   * Observable of the current evaluation context.
+   * Emits undefined until the client is started, then the context passed to start() and each context
+   * applied with setContext().
+   * 
+   * @returns Observable that emits the current context
+   */
+  get context$(): Observable<LDContext | undefined> {
+    return this.contextSubject$.asObservable();
+  }
+
   /**
    * Convenience method that returns a promise resolving to the LaunchDarkly client.
    * Used internally for lazy initialization and client access.
@@ -190,6 +312,19 @@ export class LaunchDarklyService {
     );
   }
 
+  /**
+   * Private observable that emits once when the client becomes initialized.
+   * 
+   * @returns Observable that emits true on initialization
+   */
+  private onInitialized$(): Observable<boolean> {
+    return this.isInitializedSubject$.pipe(
+      distinctUntilChanged(),
+      skip(1),
+      filter(isInitialized => isInitialized)
+    );
+  }
+
   /**
    * Protected method that initializes the LaunchDarkly client with the provided configuration.
    * Sets up event listeners for flag changes, initialization, and goals ready events.
@@ -206,7 +341,9 @@ export class LaunchDarklyService {
       streaming: true,
       // prevent allFlags from generating superfluous events for unused flags
       sendEventsOnlyForVariation: true,
-      ...(options ?? {}) 
+      ...(options ?? {}),
+      // values transferred from the server take precedence so hydration doesn't flicker
+      ...(this.serverFlags ? { bootstrap: this.serverFlags } : {})
     } as LDOptions;
     if (this.clientSubject$.value) {
       console.error('[LaunchDarkly Service] initialize called after LD already initialized, skipping. please ensure this is only called once.');
@@ -216,6 +353,93 @@ export class LaunchDarklyService {
     const client = initialize(clientId, context, clientOptions);
     this._setClient(client);
   }
+  /**
+   * Protected method that loads flags from the server flag source while rendering on the server.
+   * The flags are stored in TransferState so the browser can hydrate from them.
+   * Without a server flag source, flags evaluate to their fallbacks.
+   * 
+   * @param context - User context for flag evaluation
+   */
+  protected _initializeServer(context: LDContext): void {
+    if (this.serverFlags || !this.serverFlagSource) {
+      this.isInitializedSubject$.next(true);
+      return;
+    }
+    const source = this.serverFlagSource;
+    Promise.resolve().then(() => source.allFlags(context)).then((flags) => {
+      this.zone.run(() => {
+        this.serverFlags = flags;
+        this.transferState.set(this.flagsStateKey, flags);
+        this.isInitializedSubject$.next(true);
+        Object.entries(flagValues(flags)).forEach(([key, value]) => {
+          this.flagChangesSubject$.next({
+            key,
+            current: value,
+            previous: undefined
+          });
+        });
+      });
+    }).catch((error) => {
+      console.error('[LaunchDarkly Service] Failed to load flags from the server flag source:', error);
+      this.zone.run(() => this.isInitializedSubject$.next(true));
+    });
+  }
+
+  /**
+   * Private method that seeds flag values from the persistent flag cache.
+   * Cached values are served until the client has initialized. Flags transferred
+   * from the server are fresher, so the cache is skipped when they are present.
+   * 
+   * @param context - User context for flag evaluation
+   */
+  private seedFromCache(context: LDContext): void {
+    if (!this.flagCache || this.serverFlags) {
+      return;
+    }
+    const apply = (flags: LDFlagSet | null) => {
+      if (!flags || this.isInitializedSubject$.value) {
+        return;
+      }
+      this.cachedFlags = flags;
+      Object.entries(flags).forEach(([key, value]) => {
+        this.flagChangesSubject$.next({
+          key,
+          current: value,
+          previous: undefined
+        });
+      });
+    };
+    const cacheKey = flagCacheKey(this.config.clientId, context);
+    if (!cacheKey) {
+      return;
+    }
+    const cached = this.flagCache.get(cacheKey);
+    if (cached instanceof Promise) {
+      cached.then(flags => this.zone.run(() => apply(flags))).catch((error) => {
+        console.error('[LaunchDarkly Service] Failed to read the flag cache:', error);
+      });
+    } else {
+      apply(cached);
+    }
+  }
+
+  /**
+   * Private method that stores the current flags of the client in the persistent flag cache.
+   * 
+   * @param client - The LaunchDarkly client instance
+   */
+  private persistFlags(client: LDClient): void {
+    // the client reports the key the SDK generated for keyless contexts, which start() can't look up
+    const context = this.contextSubject$.value;
+    const cacheKey = context && flagCacheKey(this.config.clientId, context) && flagCacheKey(this.config.clientId, client.getContext());
+    if (!this.flagCache || !cacheKey) {
+      return;
+    }
+    Promise.resolve(this.flagCache.set(cacheKey, client.allFlags())).catch((error) => {
+      console.error('[LaunchDarkly Service] Failed to write the flag cache:', error);
+    });
+  }
+
   protected _setClient(client: LDClient): void {
     this.clientSubject$.next(client);
     // Set up global flag change listener
@@ -229,21 +453,40 @@ export class LaunchDarklyService {
           });
         });
       });
+      this.persistFlags(client);
     });
 
     client.on('initialized', () => {
       this.zone.run(() => {
+        const flags = client.allFlags();
+        // stop serving cached values before announcing the live ones
+        const cached = this.cachedFlags;
+        this.cachedFlags = undefined;
         this.isInitializedSubject$.next(true);
-        // Emit initial events for all flags (previous = undefined)
-        Object.entries(client.allFlags()).forEach(([key, value]) => {
-          const currentValue = value;
-          this.flagChangesSubject$.next({
-            key,
-            current: currentValue,
-            previous: undefined
+        if (cached) {
+          // Reconcile with the cached values, only emitting events for flags that differ
+          new Set([...Object.keys(cached), ...Object.keys(flags)]).forEach(key => {
+            if (!equal(cached[key], flags[key])) {
+              this.flagChangesSubject$.next({
+                key,
+                current: flags[key],
+                previous: cached[key]
+              });
+            }
           });
-        });
+        } else {
+          // Emit initial events for all flags (previous = undefined)
+          Object.entries(flags).forEach(([key, value]) => {
+            const currentValue = value;
+            this.flagChangesSubject$.next({
+              key,
+              current: currentValue,
+              previous: undefined
+            });
+          });
+        }
       });
+      this.persistFlags(client);
     });
 
     client.on('goalsReady', () => {
@@ -256,7 +499,8 @@ export class LaunchDarklyService {
    * Emits the current value immediately, then emits new values when the flag changes.
    * 
    * @param key - The feature flag key
-   * @param fallback - Default value to return if flag is not available
+   * @param fallback - Default value to return if flag is not available. Uses the declared default if omitted,
+   *   the value is typed as possibly undefined then since the declared defaults aren't known to the compiler.
    * @returns Observable that emits the flag value, starting with current value
    * 
    * @example
@@ -268,11 +512,14 @@ export class LaunchDarklyService {
    * });
    * ```
    */
-  variation$(key: string, fallback: LDFlagValue): Observable<LDFlagValue> {
+  variation$<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback: FlagsT[KeyT]): Observable<FlagsT[KeyT]>;
+  variation$<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback?: FlagsT[KeyT]): Observable<FlagsT[KeyT] | undefined>;
+  variation$<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback?: FlagsT[KeyT]): Observable<FlagsT[KeyT] | undefined> {
+    const fallbackValue = this.fallbackFor(key, fallback);
     // Start with the current value (fallback if client isn't ready), then listen for changes
     return this.onFlagChange$(key).pipe(
-      map(() => this.variation(key, fallback)),
-      startWith(this.variation(key, fallback)),
+      map(() => this.evaluate(key, fallbackValue)),
+      startWith(this.evaluate(key, fallbackValue)),
       distinctUntilChanged((prev: LDFlagValue, curr: LDFlagValue) => equal(prev, curr))
     );
   }
@@ -282,7 +529,7 @@ export class LaunchDarklyService {
    * Includes the flag value, variation index, and evaluation reason.
    * 
    * @param key - The feature flag key
-   * @param fallback - Default value to return if flag is not available
+   * @param fallback - Default value to return if flag is not available. Uses the declared default if omitted.
    * @returns Observable that emits LDEvaluationDetail with flag value and metadata
    * 
    * @example
@@ -293,15 +540,140 @@ export class LaunchDarklyService {
    * });
    * ```
    */
-  variationDetail$(key: string, fallback: LDFlagValue): Observable<LDEvaluationDetail> {
-    // Start with the current detail (fallback if client isn't ready), then listen for changes
-    return this.onFlagChange$(key).pipe(
-      map(() => this.variationDetail(key, fallback)),
-      startWith(this.variationDetail(key, fallback)),
+  variationDetail$<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback: FlagsT[KeyT]): Observable<LDTypedEvaluationDetail<FlagsT[KeyT]>>;
+  variationDetail$<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback?: FlagsT[KeyT]): Observable<LDTypedEvaluationDetail<FlagsT[KeyT] | undefined>>;
+  variationDetail$<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback?: FlagsT[KeyT]): Observable<LDTypedEvaluationDetail<FlagsT[KeyT] | undefined>> {
+    const fallbackValue = this.fallbackFor(key, fallback);
+    // Start with the current detail (fallback if client isn't ready), then listen for changes.
+    // Initialization is included since the reason changes even when a cached value didn't
+    return merge(this.onFlagChange$(key), this.onInitialized$()).pipe(
+      map(() => this.evaluateDetail(key, fallbackValue)),
+      startWith(this.evaluateDetail(key, fallbackValue)),
       distinctUntilChanged((prev: LDEvaluationDetail, curr: LDEvaluationDetail) => equal(prev, curr))
     );
   }
 
+  /**
+   * Evaluates conditions on several feature flags as one observable stream.
+   * Emits whether all (or any) of the conditions are met, then emits again when the result changes.
+   * 
+   * @param conditions - Expected values by flag key, or a list of flag conditions
+   * @param mode - Whether `all` conditions must be met, or `any` of them (default: `all`)
+   * @returns Observable that emits the combined result, starting with the current result
+   * 
+   * @example
+   * ```typescript
+   * this.ldService.evaluateAll$({ 'new-nav': true, 'beta-user': true, 'kill-switch-nav': false }).subscribe(show => {
+   *   this.showNewNav = show;
+   * });
+   * 
+   * this.ldService.evaluateAll$([
+   *   { flag: 'user-tier', operator: 'in', value: ['pro', 'enterprise'] },
+   *   { flag: 'max-seats', operator: 'gte', value: 10, fallback: 5 }
+   * ], 'any').subscribe(isTeamAccount => this.isTeamAccount = isTeamAccount);
+   * ```
+   */
+  evaluateAll$(conditions: LDFlagConditions<FlagsT>, mode: 'all' | 'any' = 'all'): Observable<boolean> {
+    const keyed: LDKeyedFlagCondition[] = Array.isArray(conditions)
+      ? conditions
+      : Object.entries(conditions).map(([flag, value]) => ({ flag, value, operator: 'deepEqual' }));
+    const evaluateConditions = () => {
+      const met = (condition: LDKeyedFlagCondition) =>
+        matchesCondition(this.evaluate(condition.flag, this.fallbackFor(condition.flag, condition.fallback)), condition);
+      return mode === 'all' ? keyed.every(met) : keyed.some(met);
+    };
+    // Every evaluation reads all flags, so a batch of changes never emits a mix of old and new values
+    return merge(...keyed.map(condition => this.onFlagChange$(condition.flag))).pipe(
+      map(() => evaluateConditions()),
+      startWith(evaluateConditions()),
+      distinctUntilChanged()
+    );
+  }
+
+  /**
+   * Gets the value of a feature flag as a signal.
+   * The signal starts with the current value and updates when the flag changes.
+   * It does not require an injection context and works in zoneless applications.
+   * 
+   * @param key - The feature flag key
+   * @param fallback - Default value to return if flag is not available. Uses the declared default if omitted.
+   * @returns Signal of the flag value
+   * 
+   * @example
+   * ```typescript
+   * readonly newFeature = this.ldService.variation('new-feature', false);
+   * ```
+   * ```html
+   * <section *ngIf="newFeature()">New feature</section>
+   * ```
+   */
+  variation<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback: FlagsT[KeyT]): Signal<FlagsT[KeyT]>;
+  variation<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback?: FlagsT[KeyT]): Signal<FlagsT[KeyT] | undefined>;
+  variation<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback?: FlagsT[KeyT]): Signal<FlagsT[KeyT] | undefined> {
+    const fallbackValue = this.fallbackFor(key, fallback);
+    const version = this.flagVersion(key);
+    return computed(() => {
+      version();
+      return this.evaluate(key, fallbackValue);
+    }, { equal });
+  }
+
+  /**
+   * Gets detailed evaluation information for a feature flag as a signal.
+   * Includes the flag value, variation index, and evaluation reason.
+   * 
+   * @param key - The feature flag key
+   * @param fallback - Default value to return if flag is not available. Uses the declared default if omitted.
+   * @returns Signal of LDEvaluationDetail with flag value and metadata
+   * 
+   * @example
+   * ```typescript
+   * readonly tier = this.ldService.variationDetail('pricing-tier', 'basic');
+   * readonly tierReason = computed(() => this.tier().reason?.kind);
+   * ```
+   */
+  variationDetail<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback: FlagsT[KeyT]): Signal<LDTypedEvaluationDetail<FlagsT[KeyT]>>;
+  variationDetail<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback?: FlagsT[KeyT]): Signal<LDTypedEvaluationDetail<FlagsT[KeyT] | undefined>>;
+  variationDetail<KeyT extends LDFlagKey<FlagsT>>(key: KeyT, fallback?: FlagsT[KeyT]): Signal<LDTypedEvaluationDetail<FlagsT[KeyT] | undefined>> {
+    const fallbackValue = this.fallbackFor(key, fallback);
+    const version = this.flagVersion(key);
+    return computed(() => {
+      version();
+      // the reason changes on initialization even when a cached value didn't
+      this.isInitialized();
+      return this.evaluateDetail(key, fallbackValue);
+    }, { equal });
+  }
+
+  /**
+   * Private method that returns the fallback for a flag, using the declared default when none is passed.
+   * 
+   * @param key - The feature flag key
+   * @param fallback - The fallback passed by the caller
+   * @returns The fallback to evaluate the flag with
+   */
+  private fallbackFor(key: string, fallback: LDFlagValue): LDFlagValue {
+    if (fallback === undefined && this.flagDefaults && Object.hasOwn(this.flagDefaults, key)) {
+      return this.flagDefaults[key];
+    }
+    return fallback;
+  }
+
+  /**
+   * Private method that returns the change counter signal for a flag key, creating it on first use.
+   * 
+   * @param key - The feature flag key
+   * @returns Signal that changes whenever the flag changes
+   */
+  private flagVersion(key: string): Signal<number> {
+    let version = this.flagVersions.get(key);
+    if (!version) {
+      version = signal(0);
+      this.flagVersions.set(key, version);
+    }
+    return version.asReadonly();
+  }
+
   /**
    * Private method that evaluates a feature flag value using the LaunchDarkly client.
    * Uses the provided client instance to ensure consistency and prevent race conditions.
@@ -311,12 +683,18 @@ export class LaunchDarklyService {
    * @param client - Optional LaunchDarkly client instance (uses current client if not provided)
    * @returns The flag value or fallback if evaluation fails
    */
-  private variation(key: string, fallback: LDFlagValue, client?: LDClient): LDFlagValue {
+  private evaluate(key: string, fallback: LDFlagValue, client?: LDClient): LDFlagValue {
+    if (this.overrides && Object.hasOwn(this.overrides, key)) {
+      return this.overrides[key];
+    }
+    if (this.cachedFlags && Object.hasOwn(this.cachedFlags, key)) {
+      return this.cachedFlags[key];
+    }
     // Use the provided client instance to ensure consistency within event handlers
     // and prevent race conditions where this.client might change between calls
     const clientToUse = client ?? this.clientSubject$.value;
     if(!clientToUse) {
-      return fallback;
+      return this.serverFlags && Object.hasOwn(this.serverFlags, key) ? this.serverFlags[key] : fallback;
     }
     return clientToUse.variation(key, fallback);
   }
@@ -330,14 +708,37 @@ export class LaunchDarklyService {
    * @param client - Optional LaunchDarkly client instance (uses current client if not provided)
    * @returns LDEvaluationDetail with flag value, variation index, and evaluation reason
    */
-  private variationDetail(key: string, fallback: LDFlagValue, client?: LDClient): LDEvaluationDetail {
+  private evaluateDetail(key: string, fallback: LDFlagValue, client?: LDClient): LDEvaluationDetail {
+    if (this.overrides && Object.hasOwn(this.overrides, key)) {
+      return {
+        value: this.overrides[key],
+        variationIndex: undefined,
+        reason: { kind: 'OVERRIDE' }
+      };
+    }
     // Use the provided client instance to ensure consistency within event handlers
     // and prevent race conditions where this.client might change between calls
     const clientToUse = client ?? this.clientSubject$.value;
      
+    if (this.cachedFlags && Object.hasOwn(this.cachedFlags, key)) {
+      // last known value while the client initializes
+      return {
+        value: this.cachedFlags[key],
+        variationIndex: undefined,
+        reason: { kind: 'CACHED' }
+      };
+    }
+    if (!clientToUse && this.serverFlags && Object.hasOwn(this.serverFlags, key)) {
+      // rendering on the server, or hydrating in the browser before the client exists
+      return {
+        value: this.serverFlags[key],
+        variationIndex: undefined,
+        reason: { kind: 'SERVER' }
+      };
+    }
     if (!clientToUse) {
       // we don't have a client set so we emulate a client not ready reason
-      // this only would happen if we add support for lazy initialization
+      // this happens in lazy mode until start() is called
       return {
         value: fallback,
         variationIndex: undefined,
@@ -351,6 +752,7 @@ export class LaunchDarklyService {
   /**
    * Changes the user context for the LaunchDarkly client.
    * This will trigger re-evaluation of all flags for the new context.
+   * In lazy mode this waits until the client has been created by start().
    * 
    * @param context - The new user context
    * @param timeoutMs - Optional timeout in milliseconds for the context change operation
@@ -376,7 +778,7 @@ export class LaunchDarklyService {
         reject(new Error('TimeoutError'));
       }, timeoutMs);
     }) : Promise.resolve();
-    return Promise.race([client.identify(context).then(() => void 0), timeoutPromise]);
+    return Promise.race([client.identify(context).then(() => this.contextSubject$.next(context)), timeoutPromise]);
   }
 
   /**
@@ -418,3 +820,13 @@ export class LaunchDarklyService {
     return client.flush();
   }
 }
+
+/**
+ * Strips the metadata keys (e.g. `$flagsState`, `$valid`) that server-side SDKs add to bootstrap data.
+ * 
+ * @param flags - Flag set that may contain metadata
+ * @returns Only the flag values
+ */
+function flagValues(flags?: LDFlagSet): LDFlagSet {
+  return Object.fromEntries(Object.entries(flags ?? {}).filter(([key]) => !key.startsWith('$')));
+}
@@ -0,0 +1,159 @@
+import equal from 'fast-deep-equal';
+import type { LDFlagValue } from 'launchdarkly-js-client-sdk';
+
+import type { LDFlagCondition } from '../interfaces/launchdarkly.interface';
+
+/**
+ * Checks whether a flag value meets a condition.
+ *
+ * @param flagValue - The flag value
+ * @param condition - The condition to check
+ * @returns true if the flag value meets the condition
+ *
+ * @example
+ * ```typescript
+ * matchesCondition(12, { operator: 'gte', value: 10 });                          // true
+ * matchesCondition({ limits: { seats: 5 } }, { path: 'limits.seats', value: 5 }); // true
+ * matchesCondition('2.1.0', { operator: 'semverGte', value: '2.0.0' });          // true
+ * ```
+ */
+export function matchesCondition(flagValue: LDFlagValue, condition: LDFlagCondition): boolean {
+  const value = condition.path ? selectPath(flagValue, condition.path) : flagValue;
+  if (condition.predicate) {
+    return condition.predicate(value);
+  }
+  const expected = condition.value;
+  switch (condition.operator ?? 'eq') {
+    case 'eq':
+      // without an expected value the flag only needs to be truthy
+      return expected === undefined ? Boolean(value) : value === expected;
+    case 'deepEqual':
+      return equal(value, expected);
+    case 'in':
+      return Array.isArray(expected) && expected.some(item => equal(item, value));
+    case 'notIn':
+      return Array.isArray(expected) && !expected.some(item => equal(item, value));
+    case 'gt':
+      return typeof value === 'number' && typeof expected === 'number' && value > expected;
+    case 'gte':
+      return typeof value === 'number' && typeof expected === 'number' && value >= expected;
+    case 'lt':
+      return typeof value === 'number' && typeof expected === 'number' && value < expected;
+    case 'lte':
+      return typeof value === 'number' && typeof expected === 'number' && value <= expected;
+    case 'matches':
+      return typeof value === 'string' && matchesPattern(value, expected);
+    case 'semverEq':
+      return compareSemver(value, expected) === 0;
+    case 'semverGt':
+      return (compareSemver(value, expected) ?? 0) > 0;
+    case 'semverGte':
+      return (compareSemver(value, expected) ?? -1) >= 0;
+    case 'semverLt':
+      return (compareSemver(value, expected) ?? 0) < 0;
+    case 'semverLte':
+      return (compareSemver(value, expected) ?? 1) <= 0;
+    default:
+      console.warn(`[LaunchDarkly] Unknown flag operator "${condition.operator}"`);
+      return false;
+  }
+}
+
+/**
+ * Tests a string flag value against a pattern.
+ * The global and sticky flags are dropped, so the result doesn't depend on the `lastIndex` of earlier tests.
+ *
+ * @param value - The flag value
+ * @param pattern - A RegExp or a regular expression source string
+ * @returns true if the value matches, false for any other pattern or an invalid regular expression
+ */
+function matchesPattern(value: string, pattern: unknown): boolean {
+  if (typeof pattern !== 'string' && !(pattern instanceof RegExp)) {
+    return false;
+  }
+  try {
+    const regExp = typeof pattern === 'string' ? new RegExp(pattern) : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+    return regExp.test(value);
+  } catch {
+    console.warn(`[LaunchDarkly] Invalid flag pattern "${pattern}"`);
+    return false;
+  }
+}
+
+/**
+ * Selects a value inside an object flag.
+ * Supports dot notation and array indexes, with an optional leading `$`.
+ *
+ * @param value - The flag value
+ * @param path - The path to select, e.g. `'limits.seats'` or `'$.tiers[0].name'`
+ * @returns The selected value, or undefined if the path doesn't exist
+ */
+export function selectPath(value: LDFlagValue, path: string): LDFlagValue {
+  const segments = path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+  return segments.reduce<LDFlagValue>(
+    (current, segment) => current !== null && typeof current === 'object' ? current[segment] : undefined,
+    value
+  );
+}
+
+/**
+ * Compares two semantic versions (`major.minor.patch` with an optional pre-release).
+ *
+ * @param a - The first version
+ * @param b - The second version
+ * @returns A negative number if a < b, 0 if equal, a positive number if a > b, or null if either isn't a version
+ */
+export function compareSemver(a: unknown, b: unknown): number | null {
+  const left = parseSemver(a);
+  const right = parseSemver(b);
+  if (!left || !right) {
+    return null;
+  }
+  for (let i = 0; i < 3; i++) {
+    if (left.version[i] !== right.version[i]) {
+      return left.version[i] - right.version[i];
+    }
+  }
+  // a pre-release version has lower precedence than the release
+  if (!left.prerelease || !right.prerelease) {
+    return (left.prerelease ? -1 : 0) - (right.prerelease ? -1 : 0);
+  }
+  const leftIds = left.prerelease.split('.');
+  const rightIds = right.prerelease.split('.');
+  for (let i = 0; i < Math.max(leftIds.length, rightIds.length); i++) {
+    if (leftIds[i] === undefined || rightIds[i] === undefined) {
+      return leftIds[i] === undefined ? -1 : 1;
+    }
+    if (leftIds[i] !== rightIds[i]) {
+      const leftNumber = /^\d+$/.test(leftIds[i]);
+      const rightNumber = /^\d+$/.test(rightIds[i]);
+      if (leftNumber && rightNumber) {
+        return Number(leftIds[i]) - Number(rightIds[i]);
+      }
+      // numeric identifiers have lower precedence than alphanumeric ones
+      if (leftNumber !== rightNumber) {
+        return leftNumber ? -1 : 1;
+      }
+      return leftIds[i] < rightIds[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+function parseSemver(value: unknown): { version: number[]; prerelease?: string } | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  return {
+    version: [Number(match[1]), Number(match[2]), Number(match[3])],
+    prerelease: match[4]
+  };
+}
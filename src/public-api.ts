@@ -4,6 +4,8 @@
 
 // Services
 export * from './lib/services/launchdarkly.service';
+export * from './lib/services/launchdarkly-registry.service';
+export * from './lib/services/launchdarkly-flag-cache.service';
 
 // Directives
 export * from './lib/directives/ld-if.directive';
@@ -14,9 +16,29 @@ export * from './lib/directives/ld-switch-default.directive';
 export * from './lib/directives/ld-class-if.directive';
 export * from './lib/directives/ld-style-if.directive';
 export * from './lib/directives/ld-track.directive';
+export * from './lib/directives/ld-component-outlet.directive';
+export * from './lib/directives/ld-text.directive';
+export * from './lib/directives/ld-attr.directive';
+export * from './lib/directives/ld-css-vars.directive';
+
+// Pipes
+export * from './lib/pipes/ld-variation.pipe';
+export * from './lib/pipes/ld-variation-detail.pipe';
 
 // Interfaces and Types
 export * from './lib/interfaces/launchdarkly.interface';
 
+// Providers
+export * from './lib/providers/launchdarkly.providers';
+
+// Router
+export * from './lib/router/ld-flag.guard';
+export * from './lib/router/ld-route-variants';
+export * from './lib/router/ld-flags.resolver';
+export * from './lib/router/ld-route-tracking';
+
+// Utils
+export * from './lib/utils/flag-conditions';
+
 // Module
-export * from './lib/launchdarkly-angular.module';
\ No newline at end of file
+export * from './lib/launchdarkly-angular.module';
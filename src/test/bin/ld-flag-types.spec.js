@@ -0,0 +1,117 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const CLI = fileURLToPath(new URL('../../../bin/ld-flag-types.js', import.meta.url));
+
+const manifest = {
+  flags: {
+    'checkout-v2': { type: 'boolean', default: false, description: 'New checkout flow' },
+    theme: { variations: ['light', 'dark'], default: 'light' },
+    banner: { type: 'json', default: { text: 'Welcome' } }
+  }
+};
+
+describe('ld-flag-types', () => {
+  let dir;
+
+  const write = (name, data) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, JSON.stringify(data));
+    return file;
+  };
+  const run = (...args) => spawnSync(process.execPath, [CLI, ...args], { cwd: dir, encoding: 'utf8' });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ld-flag-types-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should generate the key union, flag map and defaults', () => {
+    write('flags.json', manifest);
+    const result = run('flags.json');
+
+    assert.equal(result.status, 0);
+    assert.match(result.stdout, /export type AppFlagsKey = 'banner' \| 'checkout-v2' \| 'theme';/);
+    assert.match(result.stdout, /  \/\*\* New checkout flow \*\/\n  'checkout-v2': boolean;/);
+    assert.match(result.stdout, /  theme: 'light' \| 'dark';/);
+    assert.match(result.stdout, /  banner: \{\n    text: string;\n  \};/);
+    assert.match(result.stdout, /export const appFlagsDefaults: AppFlags = \{/);
+    assert.doesNotMatch(result.stdout, /declare module/);
+  });
+
+  it('should read a LaunchDarkly flag export', () => {
+    write('export.json', {
+      items: [
+        { key: 'theme', kind: 'multivariate', variations: [{ value: 'light' }, { value: 'dark' }], defaults: { offVariation: 1 } },
+        { key: 'old-flag', kind: 'boolean', archived: true, variations: [{ value: true }, { value: false }] }
+      ]
+    });
+    const result = run('export.json', '--name', 'ShopFlags');
+
+    assert.equal(result.status, 0);
+    assert.match(result.stdout, /export type ShopFlagsKey = 'theme';/);
+    assert.match(result.stdout, /export const shopFlagsDefaults: ShopFlags = \{\n  theme: 'dark'\n\};/);
+  });
+
+  it('should augment LDFlags with --augment', () => {
+    write('flags.json', manifest);
+    const result = run('flags.json', '--augment');
+
+    assert.equal(result.status, 0);
+    assert.match(result.stdout, /declare module '@launchtarqly\/launchdarkly-angular' \{\n.*\n  interface LDFlags extends AppFlags \{\}\n\}/);
+  });
+
+  it('should reject a default that is not one of the variations', () => {
+    write('flags.json', { flags: { theme: { variations: ['light', 'dark'], default: 'blue' } } });
+    const result = run('flags.json');
+
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Flag "theme" has a default of "blue", which is not one of its variations: "light", "dark"/);
+  });
+
+  it('should compare JSON defaults with their variations by value', () => {
+    write('flags.json', { flags: { banner: { variations: [{ text: 'Welcome' }, { text: 'Sale' }], default: { text: 'Sale' } } } });
+
+    assert.equal(run('flags.json').status, 0);
+  });
+
+  it('should write the module with --out and pass --check while it is up to date', () => {
+    write('flags.json', manifest);
+
+    assert.equal(run('flags.json', '--out', 'src/flags.generated.ts').status, 0);
+    const generated = fs.readFileSync(path.join(dir, 'src/flags.generated.ts'), 'utf8');
+    assert.match(generated, /^\/\/ Generated by ld-flag-types from \.\.\/flags\.json\. Do not edit\./);
+
+    const result = run('flags.json', '--out', 'src/flags.generated.ts', '--check');
+    assert.equal(result.status, 0);
+    assert.match(result.stdout, /is up to date/);
+  });
+
+  it('should fail --check with a diff when the module is out of date', () => {
+    write('flags.json', manifest);
+    run('flags.json', '--out', 'flags.generated.ts');
+    write('flags.json', { flags: { ...manifest.flags, theme: { variations: ['light', 'dark', 'auto'], default: 'light' } } });
+
+    const result = run('flags.json', '--out', 'flags.generated.ts', '--check');
+
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /is out of date with flags\.json/);
+    assert.match(result.stderr, /- {3}theme: 'light' \| 'dark';\n\+ {3}theme: 'light' \| 'dark' \| 'auto';/);
+  });
+
+  it('should require --out for --check', () => {
+    write('flags.json', manifest);
+    const result = run('flags.json', '--check');
+
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /--check requires --out/);
+  });
+});
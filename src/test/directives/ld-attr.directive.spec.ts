@@ -0,0 +1,101 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { LdAttrDirective } from '../../lib/directives/ld-attr.directive';
+import type { LdAttrSource } from '../../lib/directives/ld-attr.directive';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient, mockFlags, simulateFlagChange } from '../mocks/launchdarkly.mock';
+import type { LDClient } from 'launchdarkly-js-client-sdk';
+
+@Component({
+  standalone: true,
+  imports: [LdAttrDirective],
+  template: `<a [ldAttr]="attributes">See the offer</a>`
+})
+class TestComponent {
+  attributes: Record<string, LdAttrSource> = {
+    href: 'promo-link',
+    'aria-label': 'promo-label',
+    'data-image': { flag: 'hero-config', path: 'image.url', fallback: '/hero.png' }
+  };
+}
+
+describe('LdAttrDirective', () => {
+  let fixture: ComponentFixture<TestComponent>;
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  const link = () => (fixture.nativeElement as HTMLElement).querySelector('a') as HTMLAnchorElement;
+
+  beforeEach(async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    await TestBed.configureTestingModule({
+      imports: [TestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    TestBed.inject(LaunchDarklyService);
+    fixture = TestBed.createComponent(TestComponent);
+  });
+
+  it('should set attributes from flag values and fields of JSON flags', () => {
+    mockFlags({
+      'promo-link': '/spring-sale',
+      'promo-label': 'Spring sale',
+      'hero-config': { image: { url: '/spring.png' } }
+    }, clientMock);
+    fixture.detectChanges();
+
+    expect(link().getAttribute('href')).toBe('/spring-sale');
+    expect(link().getAttribute('aria-label')).toBe('Spring sale');
+    expect(link().getAttribute('data-image')).toBe('/spring.png');
+  });
+
+  it('should use the fallback of a missing field and remove attributes without a value', () => {
+    mockFlags({ 'promo-link': '/spring-sale', 'hero-config': {} }, clientMock);
+    fixture.detectChanges();
+
+    expect(link().getAttribute('data-image')).toBe('/hero.png');
+    expect(link().hasAttribute('aria-label')).toBeFalse();
+  });
+
+  it('should update attributes live and sanitize URLs', () => {
+    mockFlags({ 'promo-link': '/spring-sale' }, clientMock);
+    fixture.detectChanges();
+
+    simulateFlagChange('promo-link', 'javascript:alert(1)', '/spring-sale', clientMock);
+
+    expect(link().getAttribute('href')).toBe('unsafe:javascript:alert(1)');
+  });
+
+  it('should sanitize srcdoc as HTML', () => {
+    mockFlags({ 'promo-frame': '<p>Offer</p><script>alert(1)</script>' }, clientMock);
+    fixture.componentInstance.attributes = { srcdoc: 'promo-frame' };
+    fixture.detectChanges();
+
+    expect(link().getAttribute('srcdoc')).toBe('<p>Offer</p>');
+  });
+
+  it('should not set style, event handler or unknown attributes', () => {
+    spyOn(console, 'warn');
+    mockFlags({ 'promo-style': 'background: url(https://evil.example)', 'promo-target': 'frame' }, clientMock);
+    fixture.componentInstance.attributes = { style: 'promo-style', onclick: 'promo-style', formtarget: 'promo-target' };
+    fixture.detectChanges();
+
+    expect(link().hasAttribute('style')).toBeFalse();
+    expect(link().hasAttribute('onclick')).toBeFalse();
+    expect(link().hasAttribute('formtarget')).toBeFalse();
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should remove attributes that are no longer bound', () => {
+    mockFlags({ 'promo-link': '/spring-sale', 'promo-label': 'Spring sale' }, clientMock);
+    fixture.detectChanges();
+
+    fixture.componentInstance.attributes = { href: 'promo-link' };
+    fixture.detectChanges();
+
+    expect(link().hasAttribute('aria-label')).toBeFalse();
+    expect(link().getAttribute('href')).toBe('/spring-sale');
+  });
+});
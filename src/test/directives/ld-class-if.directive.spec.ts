@@ -0,0 +1,153 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { LdClassIfDirective, LdClassMapConfig } from '../../lib/directives/ld-class-if.directive';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../../lib/services/launchdarkly-registry.service';
+import { setupLaunchDarklyServiceWithMockedClient, mockFlags, simulateFlagChange } from '../mocks/launchdarkly.mock';
+import type { LDClient } from 'launchdarkly-js-client-sdk';
+
+@Component({
+  standalone: true,
+  imports: [LdClassIfDirective],
+  template: `
+    <div id="tier" class="card" [ldClassIf]="'user-tier'" [ldClassIfValue]="'premium'" [ldClassIfClass]="'premium-user'" [ldClassIfElseClass]="'basic-user'"></div>
+    <div id="density" class="card" [ldClassMap]="density"></div>
+    <div id="combined" class="card" [ldClassIf]="'user-tier'" [ldClassIfValue]="'premium'" [ldClassIfClass]="'premium-user'" [ldClassMap]="density"></div>
+  `
+})
+class TestComponent {
+  density: LdClassMapConfig | undefined = {
+    flag: 'density',
+    classes: { compact: 'd-compact', comfy: ['d-comfy', 'spacious'], cozy: 'd-comfy cozy' },
+    default: 'd-normal'
+  };
+}
+
+@Component({
+  standalone: true,
+  imports: [LdClassIfDirective],
+  template: `
+    <div [ldClassIf]="{ flag: 'user-tier', value: 'premium', class: 'premium-user', client: 'partner' }" [ldClassMap]="density"></div>
+  `
+})
+class ClientTestComponent {
+  density: LdClassMapConfig | undefined = { flag: 'density', classes: { compact: 'd-compact' } };
+}
+
+describe('LdClassIfDirective', () => {
+  let fixture: ComponentFixture<TestComponent>;
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  const classesOf = (id: string) => Array.from((fixture.nativeElement as HTMLElement).querySelector(`#${id}`)?.classList ?? []);
+
+  beforeEach(async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    await TestBed.configureTestingModule({
+      imports: [TestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    TestBed.inject(LaunchDarklyService);
+    mockFlags({}, clientMock);
+    fixture = TestBed.createComponent(TestComponent);
+  });
+
+  it('should toggle between the class and the else class', () => {
+    mockFlags({ 'user-tier': 'premium' }, clientMock);
+    fixture.detectChanges();
+
+    expect(classesOf('tier')).toEqual(['card', 'premium-user']);
+
+    simulateFlagChange('user-tier', 'basic', 'premium', clientMock);
+
+    expect(classesOf('tier')).toEqual(['card', 'basic-user']);
+  });
+
+  it('should keep ldClassIf and ldClassMap live on the same element', () => {
+    mockFlags({ 'user-tier': 'premium', density: 'compact' }, clientMock);
+    fixture.detectChanges();
+
+    expect(classesOf('combined')).toEqual(['card', 'premium-user', 'd-compact']);
+
+    simulateFlagChange('user-tier', 'basic', 'premium', clientMock);
+    simulateFlagChange('density', 'comfy', 'compact', clientMock);
+
+    expect(classesOf('combined')).toEqual(['card', 'd-comfy', 'spacious']);
+
+    fixture.componentInstance.density = undefined;
+    fixture.detectChanges();
+    simulateFlagChange('user-tier', 'premium', 'basic', clientMock);
+
+    expect(classesOf('combined')).toEqual(['card', 'premium-user']);
+  });
+
+  describe('ldClassMap', () => {
+    it('should apply the default classes when the variation has no entry', () => {
+      fixture.detectChanges();
+
+      expect(classesOf('density')).toEqual(['card', 'd-normal']);
+    });
+
+    it('should swap the classes of the previous variation on change', () => {
+      mockFlags({ density: 'compact' }, clientMock);
+      fixture.detectChanges();
+
+      expect(classesOf('density')).toEqual(['card', 'd-compact']);
+
+      simulateFlagChange('density', 'comfy', 'compact', clientMock);
+
+      expect(classesOf('density')).toEqual(['card', 'd-comfy', 'spacious']);
+
+      simulateFlagChange('density', 'cozy', 'comfy', clientMock);
+
+      expect(classesOf('density')).toEqual(['card', 'd-comfy', 'cozy']);
+
+      simulateFlagChange('density', 'unknown', 'cozy', clientMock);
+
+      expect(classesOf('density')).toEqual(['card', 'd-normal']);
+    });
+
+    it('should remove the mapped classes when the mapping is unset', () => {
+      mockFlags({ density: 'compact' }, clientMock);
+      fixture.detectChanges();
+
+      fixture.componentInstance.density = undefined;
+      fixture.detectChanges();
+
+      expect(classesOf('density')).toEqual(['card']);
+    });
+  });
+});
+
+describe('LdClassIfDirective clients', () => {
+  let registry: LaunchDarklyRegistry;
+
+  beforeEach(async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+
+    await TestBed.configureTestingModule({
+      imports: [ClientTestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    mockFlags({}, setup.clientMock);
+    registry = TestBed.inject(LaunchDarklyRegistry);
+    spyOn(registry, 'get').and.returnValue(TestBed.inject(LaunchDarklyService));
+  });
+
+  it('should resolve the ldClassIf client and the mapping client separately', () => {
+    const fixture = TestBed.createComponent(ClientTestComponent);
+    fixture.detectChanges();
+
+    expect(registry.get).toHaveBeenCalledWith('partner');
+    (registry.get as jasmine.Spy).calls.reset();
+
+    // the mapping uses the default client
+    fixture.componentInstance.density = { flag: 'density', classes: { comfy: 'd-comfy' } };
+    fixture.detectChanges();
+
+    expect(registry.get).not.toHaveBeenCalled();
+  });
+});
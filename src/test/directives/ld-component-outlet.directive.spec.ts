@@ -0,0 +1,122 @@
+import { Component, Input } from '@angular/core';
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { LdComponentOutletDirective } from '../../lib/directives/ld-component-outlet.directive';
+import type { LdComponentLoader } from '../../lib/directives/ld-component-outlet.directive';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient, mockFlags, simulateFlagChange } from '../mocks/launchdarkly.mock';
+import type { LDClient } from 'launchdarkly-js-client-sdk';
+
+@Component({
+  selector: 'ld-test-classic-widget',
+  standalone: true,
+  template: `classic {{ cart }}`
+})
+class ClassicWidgetComponent {
+  @Input() cart?: string;
+}
+
+@Component({
+  selector: 'ld-test-modern-widget',
+  standalone: true,
+  template: `modern {{ cart }}`
+})
+class ModernWidgetComponent {
+  @Input() cart?: string;
+}
+
+@Component({
+  selector: 'ld-test-fallback-widget',
+  standalone: true,
+  template: `fallback`
+})
+class FallbackWidgetComponent {}
+
+@Component({
+  standalone: true,
+  imports: [LdComponentOutletDirective],
+  template: `
+    <ng-container *ldComponentOutlet="'checkout-widget'; components: widgets; default: fallbackWidget; inputs: { cart: cart }"></ng-container>
+  `
+})
+class TestComponent {
+  cart = '3 items';
+  fallbackWidget = FallbackWidgetComponent;
+  widgets: Record<string, LdComponentLoader> = {
+    classic: ClassicWidgetComponent,
+    modern: () => Promise.resolve({ default: ModernWidgetComponent }),
+    // a module namespace without a default export
+    broken: () => Promise.resolve({ ModernWidgetComponent }) as unknown as Promise<typeof ModernWidgetComponent>
+  };
+}
+
+describe('LdComponentOutletDirective', () => {
+  let fixture: ComponentFixture<TestComponent>;
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  const text = () => (fixture.nativeElement as HTMLElement).textContent?.trim();
+
+  beforeEach(async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    await TestBed.configureTestingModule({
+      imports: [TestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    TestBed.inject(LaunchDarklyService);
+    mockFlags({ 'checkout-widget': 'classic' }, clientMock);
+    fixture = TestBed.createComponent(TestComponent);
+  });
+
+  it('should render the component of the flag value with the shared inputs', () => {
+    fixture.detectChanges();
+
+    expect(text()).toBe('classic 3 items');
+  });
+
+  it('should load lazy components and swap them when the flag changes', fakeAsync(() => {
+    fixture.detectChanges();
+
+    simulateFlagChange('checkout-widget', 'modern', 'classic', clientMock);
+    tick();
+    fixture.detectChanges();
+
+    expect(text()).toBe('modern 3 items');
+  }));
+
+  it('should render the default component for values without a component', () => {
+    fixture.detectChanges();
+
+    simulateFlagChange('checkout-widget', 'unknown', 'classic', clientMock);
+    fixture.detectChanges();
+
+    expect(text()).toBe('fallback');
+  });
+
+  it('should update the inputs without recreating the component', () => {
+    fixture.detectChanges();
+    const widget = (fixture.nativeElement as HTMLElement).querySelector('ld-test-classic-widget');
+
+    fixture.componentInstance.cart = '4 items';
+    fixture.detectChanges();
+
+    expect(text()).toBe('classic 4 items');
+    expect((fixture.nativeElement as HTMLElement).querySelector('ld-test-classic-widget')).toBe(widget);
+  });
+
+  it('should report loaders that resolve to something other than a component', fakeAsync(() => {
+    spyOn(console, 'error');
+    fixture.detectChanges();
+
+    simulateFlagChange('checkout-widget', 'broken', 'classic', clientMock);
+    tick();
+    fixture.detectChanges();
+
+    expect(console.error).toHaveBeenCalledWith(
+      '[LaunchDarkly] Could not load the component for flag "checkout-widget" value "broken":',
+      jasmine.objectContaining({ message: jasmine.stringMatching(/default export/) })
+    );
+    expect(text()).toBe('');
+  }));
+});
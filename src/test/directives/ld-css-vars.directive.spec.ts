@@ -0,0 +1,82 @@
+import { Component } from '@angular/core';
+import { NgIf } from '@angular/common';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { LdCssVarsDirective } from '../../lib/directives/ld-css-vars.directive';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient, mockFlags, simulateFlagChange } from '../mocks/launchdarkly.mock';
+import type { LDClient } from 'launchdarkly-js-client-sdk';
+
+@Component({
+  standalone: true,
+  imports: [NgIf, LdCssVarsDirective],
+  template: `
+    <section *ngIf="show" ldCssVars="theme-tokens" [ldCssVarsTarget]="target" [ldCssVarsFallback]="{ 'brand-color': '#000000' }">Themed</section>
+  `
+})
+class TestComponent {
+  show = true;
+  target: 'host' | 'root' = 'host';
+}
+
+describe('LdCssVarsDirective', () => {
+  let fixture: ComponentFixture<TestComponent>;
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  const section = () => (fixture.nativeElement as HTMLElement).querySelector('section') as HTMLElement;
+
+  beforeEach(async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    await TestBed.configureTestingModule({
+      imports: [TestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    TestBed.inject(LaunchDarklyService);
+    mockFlags({}, clientMock);
+    fixture = TestBed.createComponent(TestComponent);
+  });
+
+  it('should write the fallback tokens when the flag is not available', () => {
+    fixture.detectChanges();
+
+    expect(section().style.getPropertyValue('--brand-color')).toBe('#000000');
+  });
+
+  it('should write nested tokens and remove stale variables', () => {
+    mockFlags({ 'theme-tokens': { 'brand-color': '#0055ff', font: { body: "'Inter', sans-serif" } } }, clientMock);
+    fixture.detectChanges();
+
+    expect(section().style.getPropertyValue('--brand-color')).toBe('#0055ff');
+    expect(section().style.getPropertyValue('--font-body')).toBe("'Inter', sans-serif");
+
+    simulateFlagChange('theme-tokens', { radius: 8 }, undefined, clientMock);
+
+    expect(section().style.getPropertyValue('--brand-color')).toBe('');
+    expect(section().style.getPropertyValue('--font-body')).toBe('');
+    expect(section().style.getPropertyValue('--radius')).toBe('8');
+  });
+
+  it('should skip unsafe values and invalid names', () => {
+    spyOn(console, 'warn');
+    mockFlags({ 'theme-tokens': { 'hero-bg': 'url(https://example.com/x.png)', 'a;b': 'red', accent: 'red; color: blue' } }, clientMock);
+    fixture.detectChanges();
+
+    expect(section().getAttribute('style') ?? '').toBe('');
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should write to the document element and clean up on destroy', () => {
+    mockFlags({ 'theme-tokens': { 'brand-color': '#0055ff' } }, clientMock);
+    fixture.componentInstance.target = 'root';
+    fixture.detectChanges();
+
+    expect(document.documentElement.style.getPropertyValue('--brand-color')).toBe('#0055ff');
+
+    fixture.componentInstance.show = false;
+    fixture.detectChanges();
+
+    expect(document.documentElement.style.getPropertyValue('--brand-color')).toBe('');
+  });
+});
@@ -0,0 +1,59 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { LdFlagDirective } from '../../lib/directives/ld-flag.directive';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient, mockFlags, simulateInitialization } from '../mocks/launchdarkly.mock';
+import type { LDClient } from 'launchdarkly-js-client-sdk';
+
+describe('LdFlagDirective loading template', () => {
+  let fixture: ComponentFixture<TestComponent>;
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  const text = () => (fixture.nativeElement as HTMLElement).textContent?.trim();
+
+  beforeEach(async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    await TestBed.configureTestingModule({
+      imports: [TestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    // LaunchDarkly is not initialized yet
+    TestBed.inject(LaunchDarklyService);
+    mockFlags({ 'banner-text': 'Sale' }, clientMock);
+    fixture = TestBed.createComponent(TestComponent);
+  });
+
+  it('should show the loading template until LaunchDarkly is ready', () => {
+    fixture.detectChanges();
+
+    expect(text()).toBe('Loading');
+
+    simulateInitialization(clientMock);
+    fixture.detectChanges();
+
+    expect(text()).toBe('Banner: Sale');
+  });
+
+  it('should evaluate once the loading timeout expires', fakeAsync(() => {
+    fixture.detectChanges();
+    expect(text()).toBe('Loading');
+
+    tick(200);
+    fixture.detectChanges();
+
+    expect(text()).toContain('Banner:');
+  }));
+});
+
+@Component({
+  standalone: true,
+  imports: [LdFlagDirective],
+  template: `
+    <ng-container *ldFlag="'banner-text'; fallback: 'none'; loading: loading; loadingTimeout: 200; let text">Banner: {{ text }}</ng-container>
+    <ng-template #loading>Loading</ng-template>
+  `
+})
+class TestComponent {}
@@ -1,10 +1,11 @@
 import { Component, TemplateRef, ViewContainerRef, ChangeDetectorRef, runInInjectionContext, Injector } from '@angular/core';
-import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
 import { LdIfDirective } from '../../lib/directives/ld-if.directive';
 import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
 import { 
   setupLaunchDarklyServiceWithMockedClient, 
   createLdClientMock,
+  mockFlags,
   simulateFlagChange,
   simulateInitialization
 } from '../mocks/launchdarkly.mock';
@@ -30,7 +31,8 @@ describe('LdIfDirective', () => {
     const setup = setupLaunchDarklyServiceWithMockedClient(clientMock);
 
     await TestBed.configureTestingModule({
-      declarations: [TestComponent, LdIfDirective],
+      declarations: [TestComponent],
+      imports: [LdIfDirective],
       providers: [
         ...setup.providers,
         { provide: ChangeDetectorRef, useValue: mockCdr },
@@ -124,6 +126,63 @@ describe('LdIfDirective', () => {
     expect(mockViewContainer.clear).toHaveBeenCalled();
   });
 
+  it('should show content when flag meets the operator', () => {
+    simulateFlagChange('max-items', 12, undefined, clientMock);
+
+    const injector = TestBed.inject(Injector);
+    const directive = runInInjectionContext(injector, () => new LdIfDirective());
+
+    directive.ldIf = 'max-items';
+    directive.ldIfOperator = 'gte';
+    directive.ldIfValue = 10;
+    directive.ngOnInit();
+
+    expect(mockViewContainer.createEmbeddedView).toHaveBeenCalledWith(mockTemplateRef);
+  });
+
+  it('should evaluate a condition object on a path of an object flag', () => {
+    simulateFlagChange('plan-config', { limits: { seats: 3 } }, undefined, clientMock);
+
+    const injector = TestBed.inject(Injector);
+    const directive = runInInjectionContext(injector, () => new LdIfDirective());
+
+    directive.ldIf = 'plan-config';
+    directive.ldIfOperator = { operator: 'in', value: [5, 10], path: 'limits.seats' };
+    directive.ngOnInit();
+
+    expect(mockViewContainer.createEmbeddedView).not.toHaveBeenCalledWith(mockTemplateRef);
+  });
+
+  it('should show content when all flag conditions are met', () => {
+    mockFlags({ 'new-nav': true, 'beta-user': true, 'kill-switch-nav': false }, clientMock);
+
+    const injector = TestBed.inject(Injector);
+    const directive = runInInjectionContext(injector, () => new LdIfDirective());
+
+    directive.ldIfAll = { 'new-nav': true, 'beta-user': true, 'kill-switch-nav': false };
+    directive.ngOnInit();
+
+    expect(mockViewContainer.createEmbeddedView).toHaveBeenCalledWith(mockTemplateRef);
+
+    mockViewContainer.createEmbeddedView.calls.reset();
+    simulateFlagChange('kill-switch-nav', true, false, clientMock);
+
+    expect(mockViewContainer.clear).toHaveBeenCalled();
+    expect(mockViewContainer.createEmbeddedView).not.toHaveBeenCalledWith(mockTemplateRef);
+  });
+
+  it('should evaluate an any expression', () => {
+    mockFlags({ 'user-tier': 'basic', 'beta-user': false }, clientMock);
+
+    const injector = TestBed.inject(Injector);
+    const directive = runInInjectionContext(injector, () => new LdIfDirective());
+
+    directive.ldIf = { any: [{ flag: 'user-tier', operator: 'in', value: ['pro', 'enterprise'] }, { flag: 'beta-user', value: true }] };
+    directive.ngOnInit();
+
+    expect(mockViewContainer.createEmbeddedView).not.toHaveBeenCalledWith(mockTemplateRef);
+  });
+
   it('should unsubscribe on destroy', () => {
     // Create directive instance using runInInjectionContext
     const injector = TestBed.inject(Injector);
@@ -168,6 +227,63 @@ describe('LdIfDirective', () => {
  
 });
 
+describe('LdIfDirective loading template', () => {
+  let mockTemplateRef: jasmine.SpyObj<TemplateRef<unknown>>;
+  let mockLoadingTemplate: jasmine.SpyObj<TemplateRef<unknown>>;
+  let mockViewContainer: jasmine.SpyObj<ViewContainerRef>;
+  let clientMock: jasmine.SpyObj<LDClient>;
+  let directive: LdIfDirective;
+
+  beforeEach(() => {
+    clientMock = createLdClientMock();
+    mockTemplateRef = jasmine.createSpyObj('TemplateRef', ['createEmbeddedView']);
+    mockLoadingTemplate = jasmine.createSpyObj('TemplateRef', ['createEmbeddedView']);
+    mockViewContainer = jasmine.createSpyObj('ViewContainerRef', ['createEmbeddedView', 'clear']);
+
+    const setup = setupLaunchDarklyServiceWithMockedClient(clientMock);
+    TestBed.configureTestingModule({
+      providers: [
+        ...setup.providers,
+        { provide: ChangeDetectorRef, useValue: jasmine.createSpyObj('ChangeDetectorRef', ['markForCheck']) },
+        { provide: TemplateRef, useValue: mockTemplateRef },
+        { provide: ViewContainerRef, useValue: mockViewContainer }
+      ]
+    });
+    TestBed.inject(LaunchDarklyService);
+
+    // LaunchDarkly is not initialized yet
+    directive = runInInjectionContext(TestBed.inject(Injector), () => new LdIfDirective());
+    directive.ldIf = 'test-flag';
+    directive.ldIfFallback = false;
+    directive.ldIfLoading = mockLoadingTemplate;
+  });
+
+  it('should show the loading template until LaunchDarkly is ready', () => {
+    directive.ngOnInit();
+
+    expect(mockViewContainer.createEmbeddedView).toHaveBeenCalledWith(mockLoadingTemplate);
+    expect(mockViewContainer.createEmbeddedView).not.toHaveBeenCalledWith(mockTemplateRef);
+
+    mockFlags({ 'test-flag': true }, clientMock);
+    simulateInitialization(clientMock);
+
+    expect(mockViewContainer.createEmbeddedView).toHaveBeenCalledWith(mockTemplateRef);
+  });
+
+  it('should evaluate with the fallback once the loading timeout expires', fakeAsync(() => {
+    mockFlags({}, clientMock);
+    directive.ldIfLoadingTimeout = 200;
+    directive.ngOnInit();
+    mockViewContainer.clear.calls.reset();
+
+    tick(200);
+
+    // the fallback is falsy, so the loading template is cleared and nothing is shown
+    expect(mockViewContainer.clear).toHaveBeenCalled();
+    expect(mockViewContainer.createEmbeddedView).not.toHaveBeenCalledWith(mockTemplateRef);
+  }));
+});
+
 @Component({
   template: `
     <div *ldIf="'test-flag'; fallback: false">Test Content</div>
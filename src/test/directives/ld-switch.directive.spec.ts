@@ -0,0 +1,223 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { LdSwitchDirective } from '../../lib/directives/ld-switch.directive';
+import { LdSwitchCaseDirective } from '../../lib/directives/ld-switch-case.directive';
+import { LdSwitchDefaultDirective } from '../../lib/directives/ld-switch-default.directive';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient, mockFlags, simulateFlagChange, simulateInitialization } from '../mocks/launchdarkly.mock';
+import type { LDClient } from 'launchdarkly-js-client-sdk';
+
+describe('LdSwitchDirective', () => {
+  let fixture: ComponentFixture<TestComponent>;
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  const text = () => (fixture.nativeElement as HTMLElement).textContent?.replace(/\s+/g, ' ').trim();
+
+  beforeEach(async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    await TestBed.configureTestingModule({
+      imports: [TestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    TestBed.inject(LaunchDarklyService);
+    mockFlags({}, clientMock);
+  });
+
+  const render = () => {
+    fixture = TestBed.createComponent(TestComponent);
+    fixture.detectChanges();
+  };
+
+  it('should match primitive values exactly', () => {
+    mockFlags({ 'user-tier': 'basic' }, clientMock);
+    render();
+
+    expect(text()).toBe('Basic');
+  });
+
+  it('should match any value of an array case', () => {
+    mockFlags({ 'user-tier': 'enterprise' }, clientMock);
+    render();
+
+    expect(text()).toBe('Team');
+
+    simulateFlagChange('user-tier', 'pro', 'enterprise', clientMock);
+    fixture.detectChanges();
+
+    expect(text()).toBe('Team');
+  });
+
+  it('should match object values by deep equality', () => {
+    mockFlags({ 'user-tier': { seats: 10, sso: true } }, clientMock);
+    render();
+
+    expect(text()).toBe('Configured');
+  });
+
+  it('should match predicate cases', () => {
+    mockFlags({ 'user-tier': 'trial-14' }, clientMock);
+    render();
+
+    expect(text()).toBe('Trial');
+  });
+
+  it('should show the default case when nothing matches', () => {
+    mockFlags({ 'user-tier': 'unknown' }, clientMock);
+    render();
+
+    expect(text()).toBe('Default');
+  });
+});
+
+describe('LdSwitchDirective view lifecycle', () => {
+  let fixture: ComponentFixture<KeepAliveTestComponent>;
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  const element = (selector: string) => (fixture.nativeElement as HTMLElement).querySelector(selector);
+
+  beforeEach(async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    await TestBed.configureTestingModule({
+      imports: [KeepAliveTestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    TestBed.inject(LaunchDarklyService);
+    mockFlags({ 'checkout-layout': 'classic' }, clientMock);
+    fixture = TestBed.createComponent(KeepAliveTestComponent);
+  });
+
+  it('should hide all cases when nothing matches and there is no default', () => {
+    fixture.detectChanges();
+    expect(element('.classic')).toBeTruthy();
+
+    simulateFlagChange('checkout-layout', 'unknown', 'classic', clientMock);
+    fixture.detectChanges();
+
+    expect(element('.classic')).toBeNull();
+    expect(element('.modern')).toBeNull();
+  });
+
+  it('should recreate case views by default', () => {
+    fixture.detectChanges();
+    const classic = element('.classic');
+
+    simulateFlagChange('checkout-layout', 'modern', 'classic', clientMock);
+    simulateFlagChange('checkout-layout', 'classic', 'modern', clientMock);
+    fixture.detectChanges();
+
+    expect(element('.classic')).not.toBe(classic);
+  });
+
+  it('should reattach case views in keep-alive mode', () => {
+    fixture.componentInstance.keepAlive = true;
+    fixture.detectChanges();
+    const classic = element('.classic');
+
+    simulateFlagChange('checkout-layout', 'modern', 'classic', clientMock);
+    fixture.detectChanges();
+    expect(element('.classic')).toBeNull();
+    expect(element('.modern')).toBeTruthy();
+
+    simulateFlagChange('checkout-layout', 'classic', 'modern', clientMock);
+    fixture.detectChanges();
+    expect(element('.classic')).toBe(classic);
+  });
+});
+
+describe('LdSwitchDirective loading template', () => {
+  let fixture: ComponentFixture<LoadingTestComponent>;
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  const element = (selector: string) => (fixture.nativeElement as HTMLElement).querySelector(selector);
+
+  beforeEach(async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    await TestBed.configureTestingModule({
+      imports: [LoadingTestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    // LaunchDarkly is not initialized yet
+    TestBed.inject(LaunchDarklyService);
+    mockFlags({ 'user-tier': 'basic' }, clientMock);
+    fixture = TestBed.createComponent(LoadingTestComponent);
+  });
+
+  it('should render the loading template in place of the cases until LaunchDarkly is ready', () => {
+    fixture.detectChanges();
+
+    expect(element('.plan > .loading')).toBeTruthy();
+    expect(element('.basic')).toBeNull();
+
+    simulateInitialization(clientMock);
+    fixture.detectChanges();
+
+    expect(element('.loading')).toBeNull();
+    expect(element('.plan > .basic')).toBeTruthy();
+  });
+
+  it('should remove the loading template when it is unset before LaunchDarkly is ready', () => {
+    fixture.detectChanges();
+    expect(element('.loading')).toBeTruthy();
+
+    fixture.componentInstance.showLoading = false;
+    fixture.detectChanges();
+
+    expect(element('.loading')).toBeNull();
+    expect(element('.plan > .basic')).toBeTruthy();
+  });
+});
+
+@Component({
+  standalone: true,
+  imports: [LdSwitchDirective, LdSwitchCaseDirective, LdSwitchDefaultDirective],
+  template: `
+    <ng-container [ldSwitch]="'user-tier'">
+      <ng-template [ldSwitchCase]="'basic'">Basic</ng-template>
+      <ng-template [ldSwitchCase]="['pro', 'enterprise']">Team</ng-template>
+      <ng-template [ldSwitchCase]="{ sso: true, seats: 10 }">Configured</ng-template>
+      <ng-template [ldSwitchCase]="isTrial">Trial</ng-template>
+      <ng-template ldSwitchDefault>Default</ng-template>
+    </ng-container>
+  `
+})
+class TestComponent {
+  isTrial = (tier: unknown) => typeof tier === 'string' && tier.startsWith('trial-');
+}
+
+@Component({
+  standalone: true,
+  imports: [LdSwitchDirective, LdSwitchCaseDirective],
+  template: `
+    <ng-container [ldSwitch]="'checkout-layout'" [ldSwitchKeepAlive]="keepAlive">
+      <ng-template [ldSwitchCase]="'classic'"><input class="classic"></ng-template>
+      <ng-template [ldSwitchCase]="'modern'"><input class="modern"></ng-template>
+    </ng-container>
+  `
+})
+class KeepAliveTestComponent {
+  keepAlive = false;
+}
+
+@Component({
+  standalone: true,
+  imports: [LdSwitchDirective, LdSwitchCaseDirective, LdSwitchDefaultDirective],
+  template: `
+    <div class="plan" [ldSwitch]="'user-tier'" [ldSwitchLoading]="showLoading ? loading : undefined">
+      <ng-template [ldSwitchCase]="'basic'"><span class="basic">Basic</span></ng-template>
+      <ng-template ldSwitchDefault><span class="default">Default</span></ng-template>
+    </div>
+    <ng-template #loading><span class="loading">Loading</span></ng-template>
+  `
+})
+class LoadingTestComponent {
+  showLoading = true;
+}
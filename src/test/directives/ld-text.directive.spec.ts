@@ -0,0 +1,69 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { LdTextDirective } from '../../lib/directives/ld-text.directive';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient, mockFlags, simulateFlagChange } from '../mocks/launchdarkly.mock';
+import type { LDClient } from 'launchdarkly-js-client-sdk';
+
+@Component({
+  standalone: true,
+  imports: [LdTextDirective],
+  template: `
+    <button class="label" ldText="checkout-button-label" ldTextFallback="Buy now">Buy</button>
+    <p class="welcome" [ldText]="'welcome-message'" [ldTextParams]="{ name: name }">Welcome back!</p>
+  `
+})
+class TestComponent {
+  name = 'Ada';
+}
+
+describe('LdTextDirective', () => {
+  let fixture: ComponentFixture<TestComponent>;
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  const text = (selector: string) => (fixture.nativeElement as HTMLElement).querySelector(selector)?.textContent;
+
+  beforeEach(async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    await TestBed.configureTestingModule({
+      imports: [TestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    TestBed.inject(LaunchDarklyService);
+    mockFlags({}, clientMock);
+    fixture = TestBed.createComponent(TestComponent);
+  });
+
+  it('should use the fallback, or keep the element content without one', () => {
+    fixture.detectChanges();
+
+    expect(text('.label')).toBe('Buy now');
+    expect(text('.welcome')).toBe('Welcome back!');
+  });
+
+  it('should set the text from the flag and update it live', () => {
+    mockFlags({ 'checkout-button-label': 'Complete order' }, clientMock);
+    fixture.detectChanges();
+
+    expect(text('.label')).toBe('Complete order');
+
+    simulateFlagChange('checkout-button-label', 'Pay now', 'Complete order', clientMock);
+
+    expect(text('.label')).toBe('Pay now');
+  });
+
+  it('should interpolate named params', () => {
+    mockFlags({ 'welcome-message': 'Welcome back, {name}! {unknown}' }, clientMock);
+    fixture.detectChanges();
+
+    expect(text('.welcome')).toBe('Welcome back, Ada! {unknown}');
+
+    fixture.componentInstance.name = 'Grace';
+    fixture.detectChanges();
+
+    expect(text('.welcome')).toBe('Welcome back, Grace! {unknown}');
+  });
+});
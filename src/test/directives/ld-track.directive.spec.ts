@@ -1,10 +1,43 @@
-import { Component } from '@angular/core';
+import { Component, Provider } from '@angular/core';
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { By } from '@angular/platform-browser';
-import { LdTrackDirective } from '../../lib/directives/ld-track.directive';
+import { LdTrackDirective, LdTrackExtractor } from '../../lib/directives/ld-track.directive';
 import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../../lib/services/launchdarkly-registry.service';
+import { LD_TRACK_CONFIG } from '../../lib/interfaces/launchdarkly.interface';
 import { setupLaunchDarklyServiceWithMockedClient } from '../mocks/launchdarkly.mock';
 
+/**
+ * IntersectionObserver stand-in that reports the visibility given to trigger()
+ */
+class FakeIntersectionObserver {
+  static instances: FakeIntersectionObserver[] = [];
+  observed = new Set<Element>();
+
+  constructor(private callback: IntersectionObserverCallback, public options?: IntersectionObserverInit) {
+    FakeIntersectionObserver.instances.push(this);
+  }
+
+  observe(element: Element) {
+    this.observed.add(element);
+  }
+
+  unobserve(element: Element) {
+    this.observed.delete(element);
+  }
+
+  disconnect() {
+    this.observed.clear();
+  }
+
+  trigger(ratio: number) {
+    this.observed.forEach(target => {
+      const entry = { target, isIntersecting: ratio > 0, intersectionRatio: ratio } as IntersectionObserverEntry;
+      this.callback([entry], this as unknown as IntersectionObserver);
+    });
+  }
+}
+
 describe('LdTrackDirective', () => {
   let component: TestComponent;
   let fixture: ComponentFixture<TestComponent>;
@@ -15,7 +48,8 @@ describe('LdTrackDirective', () => {
     const setup = setupLaunchDarklyServiceWithMockedClient();
 
     await TestBed.configureTestingModule({
-      declarations: [TestComponent, LdTrackDirective],
+      declarations: [TestComponent],
+      imports: [LdTrackDirective],
       providers: setup.providers
     }).compileComponents();
 
@@ -279,6 +313,301 @@ describe('LdTrackDirective', () => {
   });
 });
 
+describe('LdTrackDirective rate limiting and multiple events', () => {
+  let fixture: ComponentFixture<RateLimitTestComponent>;
+  let ldService: LaunchDarklyService;
+
+  const element = (id: string) => (fixture.nativeElement as HTMLElement).querySelector(`#${id}`) as HTMLElement;
+
+  beforeEach(async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+
+    await TestBed.configureTestingModule({
+      imports: [RateLimitTestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    ldService = TestBed.inject(LaunchDarklyService);
+    spyOn(ldService, 'track');
+    jasmine.clock().install();
+    fixture = TestBed.createComponent(RateLimitTestComponent);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('should track only the first event with ldTrackOnce', () => {
+    element('once').click();
+    element('once').click();
+
+    expect(ldService.track).toHaveBeenCalledOnceWith('opened', jasmine.objectContaining({ eventType: 'click' }), undefined);
+  });
+
+  it('should track only after the events stop with ldTrackDebounce', () => {
+    const input = element('debounce');
+    input.dispatchEvent(new Event('input'));
+    jasmine.clock().tick(200);
+    input.dispatchEvent(new Event('input'));
+    jasmine.clock().tick(299);
+    expect(ldService.track).not.toHaveBeenCalled();
+
+    jasmine.clock().tick(1);
+    expect(ldService.track).toHaveBeenCalledTimes(1);
+  });
+
+  it('should track at most once per interval with ldTrackThrottle', () => {
+    const button = element('throttle');
+    button.click();
+    button.click();
+    jasmine.clock().tick(999);
+    button.click();
+    expect(ldService.track).toHaveBeenCalledTimes(1);
+
+    jasmine.clock().tick(1);
+    button.click();
+    expect(ldService.track).toHaveBeenCalledTimes(2);
+  });
+
+  it('should listen to several events including key events', () => {
+    const card = element('multi');
+    card.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+    expect(ldService.track).not.toHaveBeenCalled();
+
+    card.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+    card.click();
+
+    expect(ldService.track).toHaveBeenCalledWith('card-activated', jasmine.objectContaining({ eventType: 'keydown.enter' }), undefined);
+    expect(ldService.track).toHaveBeenCalledWith('card-activated', jasmine.objectContaining({ eventType: 'click' }), undefined);
+  });
+
+  it('should drop a pending debounced event on destroy', () => {
+    element('debounce').dispatchEvent(new Event('input'));
+    fixture.destroy();
+    jasmine.clock().tick(300);
+
+    expect(ldService.track).not.toHaveBeenCalled();
+  });
+});
+
+describe('LdTrackDirective event data', () => {
+  let ldService: LaunchDarklyService;
+
+  const setup = async (providers: Provider[] = []) => {
+    const ldSetup = setupLaunchDarklyServiceWithMockedClient();
+    await TestBed.configureTestingModule({
+      imports: [EventDataTestComponent],
+      providers: [...ldSetup.providers, ...providers]
+    }).compileComponents();
+
+    ldService = TestBed.inject(LaunchDarklyService);
+    spyOn(ldService, 'track');
+    const fixture = TestBed.createComponent(EventDataTestComponent);
+    fixture.detectChanges();
+    return (id: string) => (fixture.nativeElement as HTMLElement).querySelector(`#${id}`) as HTMLElement;
+  };
+
+  it('should send arrays and primitives as a data field', async () => {
+    const element = await setup();
+    element('array-data').click();
+    element('string-data').click();
+
+    expect(ldService.track).toHaveBeenCalledWith('tags', jasmine.objectContaining({ data: ['a', 'b'], eventType: 'click' }), undefined);
+    expect(ldService.track).toHaveBeenCalledWith('label', jasmine.objectContaining({ data: 'hero', eventType: 'click' }), undefined);
+  });
+
+  it('should send arrays as a data field whether or not a tracking config is provided', async () => {
+    const scrub = (data: unknown) => data;
+    const element = await setup([{ provide: LD_TRACK_CONFIG, useValue: { scrub } }]);
+    element('array-data').click();
+
+    expect(ldService.track).toHaveBeenCalledWith('tags', jasmine.objectContaining({ data: ['a', 'b'], eventType: 'click' }), undefined);
+  });
+
+  it('should send the data as it is when enrichment is turned off', async () => {
+    const element = await setup();
+    element('raw').click();
+
+    expect(ldService.track).toHaveBeenCalledWith('raw-event', 42, undefined);
+  });
+
+  it('should add the fields extracted from the DOM event', async () => {
+    const element = await setup();
+    element('extract').click();
+
+    expect(ldService.track).toHaveBeenCalledWith('plan-selected', jasmine.objectContaining({
+      source: 'pricing',
+      plan: 'pro',
+      trigger: 'click'
+    }), undefined);
+  });
+
+  it('should apply the tracking config and scrub the data', async () => {
+    const scrub = jasmine.createSpy('scrub').and.callFake((data: Record<string, unknown>) => ({ ...data, email: undefined }));
+    const element = await setup([{ provide: LD_TRACK_CONFIG, useValue: { elementFields: ['tagName'], eventType: false, scrub } }]);
+    element('pii').click();
+
+    expect(scrub).toHaveBeenCalledWith(jasmine.objectContaining({ email: 'user@example.com' }), 'profile-saved');
+    expect(ldService.track).toHaveBeenCalledWith('profile-saved', { email: undefined, element: { tagName: 'button' } }, undefined);
+  });
+});
+
+describe('LdTrackDirective impressions', () => {
+  let fixture: ComponentFixture<ImpressionTestComponent>;
+  let ldService: LaunchDarklyService;
+  const globals = window as unknown as { IntersectionObserver: unknown };
+  const originalObserver = globals.IntersectionObserver;
+
+  const observer = () => FakeIntersectionObserver.instances[FakeIntersectionObserver.instances.length - 1];
+
+  beforeEach(async () => {
+    FakeIntersectionObserver.instances = [];
+    globals.IntersectionObserver = FakeIntersectionObserver;
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+
+    await TestBed.configureTestingModule({
+      imports: [ImpressionTestComponent],
+      providers: setup.providers
+    }).compileComponents();
+
+    ldService = TestBed.inject(LaunchDarklyService);
+    spyOn(ldService, 'track');
+    fixture = TestBed.createComponent(ImpressionTestComponent);
+  });
+
+  afterEach(() => {
+    globals.IntersectionObserver = originalObserver;
+    jasmine.clock().uninstall();
+  });
+
+  it('should track an impression after the element has been visible for the dwell time', () => {
+    jasmine.clock().install();
+    fixture.detectChanges();
+
+    expect(observer().options?.threshold).toBe(0.5);
+
+    observer().trigger(0.6);
+    jasmine.clock().tick(999);
+    expect(ldService.track).not.toHaveBeenCalled();
+
+    jasmine.clock().tick(1);
+    expect(ldService.track).toHaveBeenCalledOnceWith(
+      'banner-seen',
+      jasmine.objectContaining({ eventType: 'impression' }),
+      undefined
+    );
+  });
+
+  it('should not track when the element is hidden before the dwell time or not visible enough', () => {
+    jasmine.clock().install();
+    fixture.detectChanges();
+
+    observer().trigger(0.6);
+    jasmine.clock().tick(500);
+    observer().trigger(0);
+    observer().trigger(0.3);
+    jasmine.clock().tick(2000);
+
+    expect(ldService.track).not.toHaveBeenCalled();
+  });
+
+  it('should track the impression only once per element', () => {
+    jasmine.clock().install();
+    fixture.detectChanges();
+
+    observer().trigger(1);
+    jasmine.clock().tick(1000);
+    observer().trigger(0);
+    observer().trigger(1);
+    jasmine.clock().tick(1000);
+
+    expect(ldService.track).toHaveBeenCalledTimes(1);
+  });
+
+  it('should track the impression again for a new context in context scope', async () => {
+    fixture.componentInstance.scope = 'context';
+    fixture.componentInstance.dwell = 0;
+    fixture.detectChanges();
+    const flush = () => new Promise(resolve => setTimeout(resolve));
+
+    observer().trigger(1);
+    await flush();
+    expect(ldService.track).toHaveBeenCalledTimes(1);
+
+    observer().trigger(1);
+    await flush();
+    expect(ldService.track).toHaveBeenCalledTimes(1);
+
+    await ldService.setContext({ key: 'other-user' });
+    await flush();
+    observer().trigger(1);
+    await flush();
+    expect(ldService.track).toHaveBeenCalledTimes(2);
+  });
+
+  it('should observe the contexts of a new client in context scope', () => {
+    const registry = TestBed.inject(LaunchDarklyRegistry);
+    spyOn(registry, 'get').and.returnValue(ldService);
+    fixture.componentInstance.scope = 'context';
+    fixture.detectChanges();
+    const instances = FakeIntersectionObserver.instances.length;
+
+    fixture.componentInstance.client = 'partner';
+    fixture.detectChanges();
+
+    expect(registry.get).toHaveBeenCalledWith('partner');
+    expect(FakeIntersectionObserver.instances.length).toBe(instances + 1);
+  });
+
+  it('should not track impressions without IntersectionObserver', () => {
+    globals.IntersectionObserver = undefined;
+
+    expect(() => fixture.detectChanges()).not.toThrow();
+    expect(ldService.track).not.toHaveBeenCalled();
+  });
+});
+
+@Component({
+  standalone: true,
+  imports: [LdTrackDirective],
+  template: `
+    <button id="array-data" [ldTrack]="'tags'" [ldTrackData]="['a', 'b']">Tags</button>
+    <button id="string-data" [ldTrack]="'label'" [ldTrackData]="'hero'">Label</button>
+    <button id="raw" [ldTrack]="'raw-event'" [ldTrackData]="42" [ldTrackEnrich]="false">Raw</button>
+    <button id="extract" class="plan" data-plan="pro" [ldTrack]="'plan-selected'" [ldTrackData]="{ source: 'pricing' }" [ldTrackExtract]="extract">Pro</button>
+    <button id="pii" [ldTrack]="'profile-saved'" [ldTrackData]="{ email: 'user@example.com' }">Save</button>
+  `
+})
+class EventDataTestComponent {
+  extract: LdTrackExtractor = (event, element) => ({ plan: element.dataset['plan'], trigger: event?.type });
+}
+
+@Component({
+  standalone: true,
+  imports: [LdTrackDirective],
+  template: `
+    <button id="once" [ldTrack]="'opened'" ldTrackOnce>Open</button>
+    <input id="debounce" [ldTrack]="'search-typed'" [ldTrackEvent]="'input'" [ldTrackDebounce]="300">
+    <button id="throttle" [ldTrack]="'refresh-clicked'" [ldTrackThrottle]="1000">Refresh</button>
+    <div id="multi" [ldTrack]="'card-activated'" [ldTrackEvent]="'click keydown.enter'" tabindex="0">Card</div>
+  `
+})
+class RateLimitTestComponent {}
+
+@Component({
+  standalone: true,
+  imports: [LdTrackDirective],
+  template: `
+    <div id="banner" [ldTrack]="'banner-seen'" [ldTrackEvent]="'impression'" [ldTrackDwell]="dwell" [ldTrackImpressionScope]="scope" [ldTrackClient]="client">Banner</div>
+  `
+})
+class ImpressionTestComponent {
+  dwell = 1000;
+  scope: 'page' | 'context' = 'page';
+  client?: string;
+}
+
 @Component({
   template: `
     <button id="basic-click-button" [ldTrack]="'button-clicked'">Click me</button>
@@ -1,4 +1,5 @@
 import { BehaviorSubject, of } from 'rxjs';
+import { signal } from '@angular/core';
 import { TestBed } from '@angular/core/testing';
 import type { LDClient, LDEvaluationDetail, LDFlagSet, LDFlagValue, LDFlagChangeset } from 'launchdarkly-js-client-sdk';
 import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
@@ -144,6 +145,8 @@ export const createMockLaunchDarklyService = (clientMock?: jasmine.SpyObj<LDClie
   const mock = jasmine.createSpyObj('LaunchDarklyService', [
     'variation$',
     'variationDetail$',
+    'variation',
+    'variationDetail',
     'track',
     'setContext',
     'flush',
@@ -153,6 +156,9 @@ export const createMockLaunchDarklyService = (clientMock?: jasmine.SpyObj<LDClie
     'waitForInitialization$'
   ], {
     client$: new BehaviorSubject(client),
+    isInitialized: signal(true),
+    goalsReady: signal(true),
+    allFlags: signal({}),
     isInitialized$: of(true),
     goalsReady$: of(true),
     flagChanges$: of({ flagKey: 'test-flag', value: 'test-value' })
@@ -172,6 +178,12 @@ export const createMockLaunchDarklyService = (clientMock?: jasmine.SpyObj<LDClie
     variationIndex: undefined,
     reason: { kind: 'FALLBACK' }
   }));
+  mock.variation.and.returnValue(signal('fallback'));
+  mock.variationDetail.and.returnValue(signal({
+    value: 'fallback',
+    variationIndex: undefined,
+    reason: { kind: 'FALLBACK' }
+  }));
 
   return mock;
 };
@@ -346,12 +358,15 @@ export const setupLaunchDarklyServiceWithMockedClient = (
     }
   }
   
+  const serviceFactory = () => new TestLaunchDarklyService();
+
   // Return configuration for TestBed
   return {
     providers: [
       { provide: LD_SERVICE_CONFIG, useValue: mockConfig },
-      { provide: LaunchDarklyService, useFactory: () => new TestLaunchDarklyService() }
+      { provide: LaunchDarklyService, useFactory: serviceFactory }
     ],
-    clientMock: client
+    clientMock: client,
+    serviceFactory
   };
 };
@@ -0,0 +1,88 @@
+import { ChangeDetectionStrategy, ChangeDetectorRef, Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import type { LDClient } from 'launchdarkly-js-client-sdk';
+import { LdVariationPipe } from '../../lib/pipes/ld-variation.pipe';
+import { LdVariationDetailPipe } from '../../lib/pipes/ld-variation-detail.pipe';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient, mockFlags, simulateFlagChange, simulateInitialization } from '../mocks/launchdarkly.mock';
+
+@Component({
+  standalone: true,
+  imports: [LdVariationPipe, LdVariationDetailPipe],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <h1>{{ flagKey | ldVariation: 'Welcome' }}</h1>
+    <span>{{ (flagKey | ldVariationDetail: 'Welcome')?.reason?.kind }}</span>
+  `
+})
+class TestComponent {
+  flagKey = 'banner-text';
+}
+
+describe('LdVariationPipe', () => {
+  let fixture: ComponentFixture<TestComponent>;
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  beforeEach(() => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    TestBed.configureTestingModule({
+      providers: setup.providers
+    });
+    TestBed.inject(LaunchDarklyService);
+
+    mockFlags({ 'banner-text': 'Hello' }, clientMock);
+    simulateInitialization(clientMock);
+
+    fixture = TestBed.createComponent(TestComponent);
+    fixture.detectChanges();
+  });
+
+  const text = (selector: string) => fixture.nativeElement.querySelector(selector).textContent.trim();
+
+  it('should render the flag value', () => {
+    expect(text('h1')).toBe('Hello');
+  });
+
+  it('should update OnPush views when the flag changes', () => {
+    simulateFlagChange('banner-text', 'Hi there', 'Hello', clientMock);
+    fixture.detectChanges();
+
+    expect(text('h1')).toBe('Hi there');
+  });
+
+  it('should keep a single subscription per pipe instance', () => {
+    const service = TestBed.inject(LaunchDarklyService);
+    spyOn(service, 'variation$').and.callThrough();
+
+    fixture.detectChanges();
+    fixture.detectChanges();
+
+    expect(service.variation$).not.toHaveBeenCalled();
+  });
+
+  it('should resubscribe when the key changes', () => {
+    fixture.componentInstance.flagKey = 'other-flag';
+    fixture.debugElement.injector.get(ChangeDetectorRef).markForCheck();
+    fixture.detectChanges();
+
+    expect(text('h1')).toBe('Welcome');
+  });
+});
+
+describe('LdVariationDetailPipe', () => {
+  it('should render the evaluation detail', () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    TestBed.configureTestingModule({
+      providers: setup.providers
+    });
+    TestBed.inject(LaunchDarklyService);
+    mockFlags({ 'banner-text': 'Hello' }, setup.clientMock);
+
+    const fixture = TestBed.createComponent(TestComponent);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('span').textContent.trim()).toBe('FALLBACK');
+  });
+});
@@ -0,0 +1,127 @@
+import { Component, PLATFORM_ID } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { filter, firstValueFrom } from 'rxjs';
+import { LdIfDirective } from '../../lib/directives/ld-if.directive';
+import { LD_FLAG_DEFAULTS, LD_FLAG_OVERRIDES, LD_SERVER_FLAG_SOURCE, LD_SERVICE_CONFIG } from '../../lib/interfaces/launchdarkly.interface';
+import { provideLaunchDarkly, withBootstrap, withDevOverrides, withFlagDefaults, withInitTimeout, withServerRendering } from '../../lib/providers/launchdarkly.providers';
+import type { LaunchDarklyFeature } from '../../lib/providers/launchdarkly.providers';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { LaunchDarklyRegistry } from '../../lib/services/launchdarkly-registry.service';
+import { mockFlags, setupLaunchDarklyServiceWithMockedClient } from '../mocks/launchdarkly.mock';
+
+describe('provideLaunchDarkly', () => {
+  const config = {
+    clientId: 'test-client-id',
+    context: { key: 'test-user' },
+    options: { streaming: true }
+  };
+
+  const configure = (...features: LaunchDarklyFeature[]) => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    TestBed.configureTestingModule({
+      providers: [provideLaunchDarkly(config, ...features)]
+    });
+    // keep the real provider list but swap in the service backed by the mocked client
+    TestBed.overrideProvider(LaunchDarklyService, { useFactory: setup.serviceFactory });
+    return setup;
+  };
+
+  it('should provide the service and configuration', () => {
+    configure();
+
+    expect(TestBed.inject(LaunchDarklyService)).toBeTruthy();
+    expect(TestBed.inject(LD_SERVICE_CONFIG)).toEqual(config);
+  });
+
+  it('should merge feature configuration into the service configuration', () => {
+    configure(withInitTimeout(1000), withBootstrap('localStorage'));
+
+    const serviceConfig = TestBed.inject(LD_SERVICE_CONFIG);
+    expect(serviceConfig.timeout).toBe(1000);
+    expect(serviceConfig.options).toEqual({ streaming: true, bootstrap: 'localStorage' });
+  });
+
+  it('should apply dev overrides to flag evaluations', async () => {
+    configure(withDevOverrides({ 'new-feature': true }));
+
+    expect(TestBed.inject(LD_FLAG_OVERRIDES)).toEqual({ 'new-feature': true });
+
+    const service = TestBed.inject(LaunchDarklyService);
+    expect(await firstValueFrom(service.variation$('new-feature', false))).toBe(true);
+
+    const detail = await firstValueFrom(service.variationDetail$('new-feature', false));
+    expect(detail.value).toBe(true);
+    expect(detail.reason?.kind).toBe('OVERRIDE');
+  });
+
+  it('should provide declared flag defaults', () => {
+    configure(withFlagDefaults<{ 'new-feature': boolean }>({ 'new-feature': false }));
+
+    expect(TestBed.inject(LD_FLAG_DEFAULTS)).toEqual({ 'new-feature': false });
+  });
+
+  it('should provide a server flag source from bootstrap JSON', async () => {
+    configure(withServerRendering({ 'new-feature': true }));
+
+    const source = TestBed.inject(LD_SERVER_FLAG_SOURCE);
+    expect(await source.allFlags({ key: 'test-user' })).toEqual({ 'new-feature': true });
+  });
+
+  it('should allow standalone components to import directives individually', () => {
+    configure();
+
+    const fixture = TestBed.createComponent(StandaloneTestComponent);
+    fixture.detectChanges();
+
+    expect(fixture.componentInstance).toBeTruthy();
+  });
+});
+
+describe('provideLaunchDarkly with named clients', () => {
+  const ready = (service: LaunchDarklyService) => firstValueFrom(service.waitUntilReady$(1000).pipe(filter(Boolean)));
+
+  it('should not share the server flag source of the default client', async () => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: PLATFORM_ID, useValue: 'server' },
+        provideLaunchDarkly({ clientId: 'host-client-id', context: { key: 'test-user' } }, withServerRendering({ 'host-flag': true })),
+        provideLaunchDarkly({ name: 'partner', clientId: 'partner-client-id', context: { key: 'test-user' } }, withServerRendering({ 'partner-flag': true })),
+        provideLaunchDarkly({ name: 'other', clientId: 'other-client-id', context: { key: 'test-user' } })
+      ]
+    });
+    const host = TestBed.inject(LaunchDarklyService);
+    const partner = TestBed.inject(LaunchDarklyRegistry).get('partner');
+    const other = TestBed.inject(LaunchDarklyRegistry).get('other');
+    await Promise.all([ready(host), ready(partner), ready(other)]);
+
+    expect(host.allFlags()).toEqual({ 'host-flag': true });
+    expect(partner.allFlags()).toEqual({ 'partner-flag': true });
+    expect(other.allFlags()).toEqual({});
+  });
+
+  it('should not share the flag defaults of the default client', async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    TestBed.configureTestingModule({
+      providers: [
+        provideLaunchDarkly({ clientId: 'host-client-id', context: { key: 'test-user' } }, withFlagDefaults({ 'shared-flag': 'host-default' })),
+        // no context, so the named client is created lazily and never connects
+        provideLaunchDarkly({ name: 'partner', clientId: 'partner-client-id' })
+      ]
+    });
+    TestBed.overrideProvider(LaunchDarklyService, { useFactory: setup.serviceFactory });
+    mockFlags({}, setup.clientMock);
+    const partner = TestBed.inject(LaunchDarklyRegistry).get('partner');
+
+    expect(await firstValueFrom(TestBed.inject(LaunchDarklyService).variation$('shared-flag'))).toBe('host-default');
+    expect(await firstValueFrom(partner.variation$('shared-flag'))).toBeUndefined();
+  });
+});
+
+@Component({
+  standalone: true,
+  imports: [LdIfDirective],
+  template: `
+    <div *ldIf="'test-flag'; fallback: false">Test Content</div>
+  `
+})
+class StandaloneTestComponent {}
@@ -0,0 +1,83 @@
+import { EnvironmentInjector, createEnvironmentInjector } from '@angular/core';
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { Router, UrlTree, provideRouter } from '@angular/router';
+import { Observable, firstValueFrom, of } from 'rxjs';
+import type { LDClient } from 'launchdarkly-js-client-sdk';
+import { ldFlagGuard } from '../../lib/router/ld-flag.guard';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient, mockFlags, simulateInitialization } from '../mocks/launchdarkly.mock';
+
+describe('ldFlagGuard', () => {
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  beforeEach(() => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    TestBed.configureTestingModule({
+      providers: [
+        ...setup.providers,
+        provideRouter([])
+      ]
+    });
+    TestBed.inject(LaunchDarklyService);
+  });
+
+  const runGuard = (guard: ReturnType<typeof ldFlagGuard>) =>
+    TestBed.runInInjectionContext(() => guard({} as never, [])) as Observable<boolean | UrlTree>;
+
+  it('should allow navigation when the flag is truthy', async () => {
+    mockFlags({ 'new-feature': true }, clientMock);
+    simulateInitialization(clientMock);
+
+    expect(await firstValueFrom(runGuard(ldFlagGuard('new-feature')))).toBe(true);
+  });
+
+  it('should compare against the expected value or predicate', async () => {
+    mockFlags({ 'user-tier': 'premium' }, clientMock);
+    simulateInitialization(clientMock);
+
+    expect(await firstValueFrom(runGuard(ldFlagGuard('user-tier', { value: 'premium' })))).toBe(true);
+    expect(await firstValueFrom(runGuard(ldFlagGuard('user-tier', { value: 'basic' })))).toBe(false);
+    expect(await firstValueFrom(runGuard(ldFlagGuard('user-tier', { value: (tier: string) => tier !== 'basic' })))).toBe(true);
+  });
+
+  it('should redirect when the flag does not match', async () => {
+    mockFlags({ 'new-feature': false }, clientMock);
+    simulateInitialization(clientMock);
+
+    const result = await firstValueFrom(runGuard(ldFlagGuard('new-feature', { redirectTo: '/home' })));
+
+    expect(result instanceof UrlTree).toBe(true);
+    expect(TestBed.inject(Router).serializeUrl(result as UrlTree)).toBe('/home');
+  });
+
+  it('should use the fallback when initialization times out', fakeAsync(() => {
+    mockFlags({}, clientMock);
+    let result: boolean | UrlTree | undefined;
+    runGuard(ldFlagGuard('new-feature', { timeoutMs: 100, fallback: true })).subscribe(value => result = value);
+
+    tick(99);
+    expect(result).toBeUndefined();
+
+    tick(1);
+    expect(result).toBe(true);
+  }));
+
+  it('should use the nearest LaunchDarklyService when no client is named', async () => {
+    mockFlags({ 'new-feature': false }, clientMock);
+    simulateInitialization(clientMock);
+    const routeService = jasmine.createSpyObj<LaunchDarklyService>('LaunchDarklyService', ['waitForInitialization$', 'variation$']);
+    routeService.waitForInitialization$.and.returnValue(of(true));
+    routeService.variation$.and.returnValue(of(true));
+    const routeInjector = createEnvironmentInjector(
+      [{ provide: LaunchDarklyService, useValue: routeService }],
+      TestBed.inject(EnvironmentInjector)
+    );
+
+    const result = routeInjector.runInContext(() => ldFlagGuard('new-feature')({} as never, [])) as Observable<boolean | UrlTree>;
+
+    expect(await firstValueFrom(result)).toBe(true);
+    expect(routeService.variation$).toHaveBeenCalledWith('new-feature', undefined);
+  });
+});
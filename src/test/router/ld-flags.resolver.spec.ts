@@ -0,0 +1,91 @@
+import { Component, inject } from '@angular/core';
+import { AsyncPipe, JsonPipe } from '@angular/common';
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRoute, Router, provideRouter } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
+import { map } from 'rxjs';
+import type { LDClient } from 'launchdarkly-js-client-sdk';
+import { ldFlagsResolver } from '../../lib/router/ld-flags.resolver';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient, mockFlags, simulateFlagChange, simulateInitialization } from '../mocks/launchdarkly.mock';
+
+@Component({
+  standalone: true,
+  imports: [AsyncPipe, JsonPipe],
+  template: '{{ flags$ | async | json }}'
+})
+class PricingComponent {
+  readonly flags$ = inject(ActivatedRoute).data.pipe(map(data => data['flags']));
+}
+
+describe('ldFlagsResolver', () => {
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  const configure = (live: boolean) => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    TestBed.configureTestingModule({
+      providers: [
+        ...setup.providers,
+        provideRouter([
+          {
+            path: 'pricing',
+            component: PricingComponent,
+            runGuardsAndResolvers: 'always',
+            resolve: {
+              flags: ldFlagsResolver({ 'pricing-layout': 'grid', 'max-seats': 5 }, { live })
+            }
+          }
+        ])
+      ]
+    });
+    TestBed.inject(LaunchDarklyService);
+  };
+
+  it('should snapshot the requested flags onto the route data', async () => {
+    configure(false);
+    mockFlags({ 'pricing-layout': 'table' }, clientMock);
+    simulateInitialization(clientMock);
+
+    const harness = await RouterTestingHarness.create();
+    const component = await harness.navigateByUrl('/pricing', PricingComponent);
+
+    expect(harness.routeDebugElement?.injector.get(ActivatedRoute).snapshot.data['flags']).toEqual({
+      'pricing-layout': 'table',
+      'max-seats': 5
+    });
+    expect(component).toBeTruthy();
+  });
+
+  it('should re-resolve on flag changes in live mode', async () => {
+    configure(true);
+    mockFlags({ 'pricing-layout': 'table', 'max-seats': 10 }, clientMock);
+    simulateInitialization(clientMock);
+
+    const harness = await RouterTestingHarness.create();
+    await harness.navigateByUrl('/pricing', PricingComponent);
+    const route = harness.routeDebugElement?.injector.get(ActivatedRoute);
+
+    simulateFlagChange('pricing-layout', 'grid', 'table', clientMock);
+    await harness.fixture.whenStable();
+
+    expect(route?.snapshot.data['flags']['pricing-layout']).toBe('grid');
+  });
+
+  it('should stop re-resolving once the app is destroyed', async () => {
+    configure(true);
+    mockFlags({ 'pricing-layout': 'table' }, clientMock);
+    simulateInitialization(clientMock);
+
+    const harness = await RouterTestingHarness.create();
+    await harness.navigateByUrl('/pricing', PricingComponent);
+    const router = TestBed.inject(Router);
+    spyOn(router, 'navigateByUrl').and.callThrough();
+
+    TestBed.resetTestingModule();
+    simulateFlagChange('pricing-layout', 'grid', 'table', clientMock);
+
+    expect(router.navigateByUrl).not.toHaveBeenCalled();
+  });
+});
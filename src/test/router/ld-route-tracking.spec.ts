@@ -0,0 +1,85 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
+import { provideLaunchDarkly } from '../../lib/providers/launchdarkly.providers';
+import { withRouteTracking } from '../../lib/router/ld-route-tracking';
+import type { LdRouteTrackingOptions } from '../../lib/router/ld-route-tracking';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient } from '../mocks/launchdarkly.mock';
+
+@Component({
+  standalone: true,
+  template: 'page'
+})
+class PageComponent {}
+
+describe('withRouteTracking', () => {
+  let ldService: LaunchDarklyService;
+
+  const reload = (url: string) => TestBed.inject(Router).navigateByUrl(url, { onSameUrlNavigation: 'reload' });
+
+  const configure = async (options?: LdRouteTrackingOptions) => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([
+          { path: '', component: PageComponent },
+          {
+            path: 'products',
+            data: { section: 'catalog' },
+            children: [
+              { path: ':id', component: PageComponent, data: { template: 'product' } }
+            ]
+          }
+        ]),
+        provideLaunchDarkly({ clientId: 'test-client-id', context: { key: 'test-user' } }, withRouteTracking(options))
+      ]
+    });
+    TestBed.overrideProvider(LaunchDarklyService, { useFactory: setup.serviceFactory });
+    ldService = TestBed.inject(LaunchDarklyService);
+    spyOn(ldService, 'track');
+    return RouterTestingHarness.create();
+  };
+
+  it('should track the route path template on navigation', async () => {
+    const harness = await configure();
+    await harness.navigateByUrl('/products/42?ref=home');
+
+    expect(ldService.track).toHaveBeenCalledWith('page-view', { path: '/products/:id' });
+  });
+
+  it('should add route data with a custom event key', async () => {
+    const harness = await configure({ eventKey: 'route-viewed', data: ['section', 'missing'] });
+    await harness.navigateByUrl('/products/42');
+
+    expect(ldService.track).toHaveBeenCalledWith('route-viewed', { path: '/products/:id', data: { section: 'catalog' } });
+  });
+
+  it('should track navigations to the same URL once by default', async () => {
+    const harness = await configure();
+    await harness.navigateByUrl('/products/1');
+    await reload('/products/1');
+    await harness.navigateByUrl('/products/2');
+
+    expect(ldService.track).toHaveBeenCalledTimes(2);
+  });
+
+  it('should track navigations on the same route once with path deduplication', async () => {
+    const harness = await configure({ dedupe: 'path' });
+    await harness.navigateByUrl('/products/1');
+    await harness.navigateByUrl('/products/2');
+    await harness.navigateByUrl('/');
+
+    expect(ldService.track).toHaveBeenCalledTimes(2);
+    expect(ldService.track).toHaveBeenCalledWith('page-view', { path: '/' });
+  });
+
+  it('should track every navigation without deduplication', async () => {
+    const harness = await configure({ dedupe: false });
+    await harness.navigateByUrl('/products/1');
+    await reload('/products/1');
+
+    expect(ldService.track).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,109 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
+import type { LDClient } from 'launchdarkly-js-client-sdk';
+import { ldRouteVariants } from '../../lib/router/ld-route-variants';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient, mockFlags, simulateInitialization } from '../mocks/launchdarkly.mock';
+
+@Component({ standalone: true, template: 'control' })
+class ControlComponent {}
+
+@Component({ standalone: true, template: 'treatment' })
+class TreatmentComponent {}
+
+describe('ldRouteVariants', () => {
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  beforeEach(() => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    TestBed.configureTestingModule({
+      providers: [
+        ...setup.providers,
+        provideRouter([
+          {
+            path: 'checkout',
+            children: ldRouteVariants('checkout-layout', {
+              control: () => ControlComponent,
+              treatment: { loadComponent: () => TreatmentComponent }
+            }, 'control', { trackEvent: 'checkout-layout-served' })
+          }
+        ])
+      ]
+    });
+    TestBed.inject(LaunchDarklyService);
+  });
+
+  it('should load the variant served by the flag and track it', async () => {
+    mockFlags({ 'checkout-layout': 'treatment' }, clientMock);
+    simulateInitialization(clientMock);
+
+    const harness = await RouterTestingHarness.create();
+    await harness.navigateByUrl('/checkout');
+
+    expect(harness.routeNativeElement?.textContent).toContain('treatment');
+    expect(clientMock.track).toHaveBeenCalledWith('checkout-layout-served', { flag: 'checkout-layout', variant: 'treatment' }, undefined);
+  });
+
+  it('should load the default variant for unknown flag values', async () => {
+    mockFlags({ 'checkout-layout': 'unknown' }, clientMock);
+    simulateInitialization(clientMock);
+
+    const harness = await RouterTestingHarness.create();
+    await harness.navigateByUrl('/checkout');
+
+    expect(harness.routeNativeElement?.textContent).toContain('control');
+  });
+
+  it('should expose the served variant on the route data', async () => {
+    mockFlags({ 'checkout-layout': 'treatment' }, clientMock);
+    simulateInitialization(clientMock);
+
+    const harness = await RouterTestingHarness.create();
+    await harness.navigateByUrl('/checkout');
+
+    const route = TestBed.inject(Router).routerState.snapshot.root.firstChild?.firstChild;
+    expect(route?.data['ldVariant']).toEqual({ flag: 'checkout-layout', variant: 'treatment' });
+  });
+});
+
+describe('ldRouteVariants with a client that never initializes', () => {
+  let ldService: LaunchDarklyService;
+
+  beforeEach(() => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+
+    TestBed.configureTestingModule({
+      providers: [
+        ...setup.providers,
+        provideRouter([
+          {
+            path: 'checkout',
+            children: ldRouteVariants('checkout-layout', {
+              control: () => ControlComponent,
+              treatment: () => TreatmentComponent,
+              compact: () => TreatmentComponent,
+              wizard: () => TreatmentComponent
+            }, 'control', { timeoutMs: 50 })
+          }
+        ])
+      ]
+    });
+    ldService = TestBed.inject(LaunchDarklyService);
+    spyOn(ldService, 'waitForInitialization$').and.callThrough();
+  });
+
+  it('should wait for the flag once per navigation', async () => {
+    const harness = await RouterTestingHarness.create();
+    await harness.navigateByUrl('/checkout');
+
+    expect(harness.routeNativeElement?.textContent).toContain('control');
+    expect(ldService.waitForInitialization$).toHaveBeenCalledTimes(1);
+
+    await TestBed.inject(Router).navigateByUrl('/checkout', { onSameUrlNavigation: 'reload' });
+    expect(ldService.waitForInitialization$).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,70 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { LdIfDirective } from '../../lib/directives/ld-if.directive';
+import { provideLaunchDarkly } from '../../lib/providers/launchdarkly.providers';
+import { LaunchDarklyRegistry } from '../../lib/services/launchdarkly-registry.service';
+import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
+import { setupLaunchDarklyServiceWithMockedClient } from '../mocks/launchdarkly.mock';
+
+describe('LaunchDarklyRegistry', () => {
+  let registry: LaunchDarklyRegistry;
+
+  beforeEach(() => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+
+    TestBed.configureTestingModule({
+      providers: [
+        ...setup.providers,
+        // no context, so the named client is created lazily and never connects
+        provideLaunchDarkly({ name: 'partner', clientId: 'partner-client-id' })
+      ]
+    });
+
+    registry = TestBed.inject(LaunchDarklyRegistry);
+  });
+
+  it('should return the default service when no name is given', () => {
+    expect(registry.get()).toBe(TestBed.inject(LaunchDarklyService));
+  });
+
+  it('should register named services separately from the default service', () => {
+    expect(registry.has('partner')).toBe(true);
+    expect(registry.get('partner')).toBeInstanceOf(LaunchDarklyService);
+    expect(registry.get('partner')).not.toBe(TestBed.inject(LaunchDarklyService));
+  });
+
+  it('should throw for unknown names', () => {
+    expect(() => registry.get('unknown')).toThrowError(/No LaunchDarkly client registered with name "unknown"/);
+  });
+
+  it('should not replace an already registered name', () => {
+    const partner = registry.get('partner');
+    spyOn(console, 'error');
+
+    registry.register('partner', TestBed.inject(LaunchDarklyService));
+
+    expect(console.error).toHaveBeenCalled();
+    expect(registry.get('partner')).toBe(partner);
+  });
+
+  it('should let directives target a named client', () => {
+    const partner = registry.get('partner');
+    spyOn(partner, 'variation$').and.returnValue(of(true));
+
+    const fixture = TestBed.createComponent(NamedClientTestComponent);
+    fixture.detectChanges();
+
+    expect(partner.variation$).toHaveBeenCalledWith('partner-flag', false);
+    expect(fixture.nativeElement.textContent).toContain('Partner Content');
+  });
+});
+
+@Component({
+  standalone: true,
+  imports: [LdIfDirective],
+  template: `
+    <div *ldIf="'partner-flag'; fallback: false; client: 'partner'">Partner Content</div>
+  `
+})
+class NamedClientTestComponent {}
@@ -1,13 +1,25 @@
+import { PLATFORM_ID, TransferState, makeStateKey } from '@angular/core';
 import { TestBed } from '@angular/core/testing';
+import { filter, firstValueFrom } from 'rxjs';
 import { LaunchDarklyService } from '../../lib/services/launchdarkly.service';
-import { setupLaunchDarklyServiceWithMockedClient } from '../mocks/launchdarkly.mock';
+import { LD_FLAG_CACHE, LD_FLAG_DEFAULTS, LD_SERVER_FLAG_SOURCE, LD_SERVICE_CONFIG } from '../../lib/interfaces/launchdarkly.interface';
+import type { LDClient, LDFlagSet } from 'launchdarkly-js-client-sdk';
+import type { LDFlagCache } from '../../lib/interfaces/launchdarkly.interface';
+import {
+  setupLaunchDarklyServiceWithMockedClient,
+  mockFlags,
+  simulateFlagChange,
+  simulateInitialization
+} from '../mocks/launchdarkly.mock';
 
 describe('LaunchDarklyService', () => {
   let service: LaunchDarklyService;
+  let clientMock: jasmine.SpyObj<LDClient>;
 
   beforeEach(() => {
     // Set up service with mocked client
     const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
     
     // Configure TestBed with the setup providers
     TestBed.configureTestingModule({
@@ -85,6 +97,90 @@ describe('LaunchDarklyService', () => {
     });
   });
 
+  describe('evaluateAll$', () => {
+    it('should emit whether all expected values are met', () => {
+      mockFlags({ 'new-nav': true, 'beta-user': true, 'kill-switch-nav': false }, clientMock);
+      const results: boolean[] = [];
+      service.evaluateAll$({ 'new-nav': true, 'beta-user': true, 'kill-switch-nav': false }).subscribe(result => results.push(result));
+
+      simulateFlagChange('kill-switch-nav', true, false, clientMock);
+
+      expect(results).toEqual([true, false]);
+    });
+
+    it('should emit whether any condition is met', () => {
+      mockFlags({ 'user-tier': 'basic', 'max-seats': 12 }, clientMock);
+      const results: boolean[] = [];
+      service.evaluateAll$([
+        { flag: 'user-tier', operator: 'in', value: ['pro', 'enterprise'] },
+        { flag: 'max-seats', operator: 'gte', value: 10 }
+      ], 'any').subscribe(result => results.push(result));
+
+      expect(results).toEqual([true]);
+    });
+
+    it('should not emit intermediate results for a batch of changes', () => {
+      mockFlags({ 'flag-a': true, 'flag-b': false }, clientMock);
+      const results: boolean[] = [];
+      service.evaluateAll$({ 'flag-a': true, 'flag-b': true }, 'any').subscribe(result => results.push(result));
+
+      mockFlags({ 'flag-a': false, 'flag-b': true }, clientMock);
+      const changeHandler = clientMock.on.calls.all().find(call => call.args[0] === 'change');
+      changeHandler?.args[1]({
+        'flag-a': { current: false, previous: true },
+        'flag-b': { current: true, previous: false }
+      });
+
+      expect(results).toEqual([true]);
+    });
+  });
+
+  describe('signals', () => {
+    it('should return the fallback value before the flag changes', () => {
+      const value = service.variation('test-flag', 'fallback');
+      expect(value()).toBe('fallback');
+    });
+
+    it('should update variation signal when the flag changes', () => {
+      const value = service.variation('test-flag', false);
+      expect(value()).toBe('fallback');
+
+      simulateFlagChange('test-flag', true, undefined, clientMock);
+
+      expect(value()).toBe(true);
+    });
+
+    it('should only re-evaluate the changed flag', () => {
+      const value = service.variation('test-flag', false);
+      value();
+      clientMock.variation.calls.reset();
+
+      simulateFlagChange('other-flag', true, undefined, clientMock);
+      value();
+
+      expect(clientMock.variation).not.toHaveBeenCalled();
+    });
+
+    it('should update variationDetail signal when the flag changes', () => {
+      const detail = service.variationDetail('test-flag', false);
+
+      simulateFlagChange('test-flag', 'premium', undefined, clientMock);
+
+      expect(detail().value).toBe('premium');
+    });
+
+    it('should expose initialization state and all flags', () => {
+      mockFlags({ 'test-flag': true, 'other-flag': 'on' }, clientMock);
+      expect(service.isInitialized()).toBe(false);
+
+      simulateInitialization(clientMock);
+
+      expect(service.isInitialized()).toBe(true);
+      expect(service.goalsReady()).toBe(false);
+      expect(service.allFlags()).toEqual({ 'test-flag': true, 'other-flag': 'on' });
+    });
+  });
+
   describe('setContext', () => {
     it('should return promise for context change', async () => {
       const newContext = { key: 'new-user' };
@@ -118,4 +214,217 @@ describe('LaunchDarklyService', () => {
       await expectAsync(service.flush()).toBeResolved();
     });
   });
-}); 
\ No newline at end of file
+}); 
+describe('LaunchDarklyService lazy initialization', () => {
+  let service: LaunchDarklyService;
+  let clientMock: jasmine.SpyObj<LDClient>;
+
+  beforeEach(() => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+
+    // a config without a context defers client creation until start()
+    TestBed.configureTestingModule({
+      providers: [
+        ...setup.providers,
+        { provide: LD_SERVICE_CONFIG, useValue: { clientId: 'test-client-id' } }
+      ]
+    });
+
+    service = TestBed.inject(LaunchDarklyService);
+  });
+
+  it('should not create the client until started', () => {
+    let client: LDClient | undefined;
+    service.client$.subscribe(value => client = value);
+
+    expect(client).toBeUndefined();
+    expect(clientMock.on).not.toHaveBeenCalled();
+  });
+
+  it('should emit fallbacks with a CLIENT_NOT_READY reason before start', async () => {
+    expect(await firstValueFrom(service.variation$('test-flag', 'fallback'))).toBe('fallback');
+
+    const detail = await firstValueFrom(service.variationDetail$('test-flag', 'fallback'));
+    expect(detail.value).toBe('fallback');
+    expect(detail.reason).toEqual({ kind: 'ERROR', errorKind: 'CLIENT_NOT_READY' });
+  });
+
+  it('should create the client and update flags once started', () => {
+    const values: unknown[] = [];
+    service.variation$('test-flag', false).subscribe(value => values.push(value));
+
+    service.start({ key: 'test-user' });
+    mockFlags({ 'test-flag': true }, clientMock);
+    simulateInitialization(clientMock);
+
+    expect(values).toEqual([false, true]);
+  });
+
+  it('should ignore a second start and keep the first context', () => {
+    spyOn(console, 'error');
+    const contexts: unknown[] = [];
+    service.context$.subscribe(context => contexts.push(context));
+
+    service.start({ key: 'test-user' });
+    service.start({ key: 'other-user' });
+
+    expect(console.error).toHaveBeenCalledTimes(1);
+    expect(contexts).toEqual([undefined, { key: 'test-user' }]);
+    expect(clientMock.on.calls.allArgs().filter(([event]) => event === 'change').length).toBe(1);
+  });
+});
+
+describe('LaunchDarklyService server-side rendering', () => {
+  const flagsStateKey = makeStateKey<LDFlagSet>('launchdarkly-flags:default');
+
+  it('should evaluate flags from the server flag source on the server', async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    TestBed.configureTestingModule({
+      providers: [
+        ...setup.providers,
+        { provide: PLATFORM_ID, useValue: 'server' },
+        { provide: LD_SERVER_FLAG_SOURCE, useValue: { allFlags: () => Promise.resolve({ 'test-flag': 'server-value', $valid: true }) } }
+      ]
+    });
+    const service = TestBed.inject(LaunchDarklyService);
+
+    await firstValueFrom(service.waitUntilReady$(1000).pipe(filter(Boolean)));
+
+    expect(setup.clientMock.on).not.toHaveBeenCalled();
+    expect(await firstValueFrom(service.variation$('test-flag', 'fallback'))).toBe('server-value');
+    expect(service.allFlags()).toEqual({ 'test-flag': 'server-value' });
+    expect(TestBed.inject(TransferState).get(flagsStateKey, null)).toEqual({ 'test-flag': 'server-value', $valid: true });
+  });
+
+  it('should hydrate flags from TransferState in the browser', async () => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    TestBed.configureTestingModule({
+      providers: [
+        ...setup.providers,
+        // lazy mode, so the transferred values are used until a client exists
+        { provide: LD_SERVICE_CONFIG, useValue: { clientId: 'test-client-id' } }
+      ]
+    });
+    TestBed.inject(TransferState).set(flagsStateKey, { 'test-flag': 'server-value' });
+    const service = TestBed.inject(LaunchDarklyService);
+
+    expect(await firstValueFrom(service.variation$('test-flag', 'fallback'))).toBe('server-value');
+    const detail = await firstValueFrom(service.variationDetail$('test-flag', 'fallback'));
+    expect(detail.reason?.kind).toBe('SERVER');
+    expect(TestBed.inject(TransferState).hasKey(flagsStateKey)).toBe(false);
+  });
+});
+
+describe('LaunchDarklyService flag cache', () => {
+  let service: LaunchDarklyService;
+  let clientMock: jasmine.SpyObj<LDClient>;
+  let cache: jasmine.SpyObj<LDFlagCache>;
+
+  beforeEach(() => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    clientMock = setup.clientMock;
+    cache = jasmine.createSpyObj<LDFlagCache>('LDFlagCache', ['get', 'set']);
+    cache.get.and.returnValue({ 'test-flag': 'cached-value', 'other-flag': 1 });
+
+    TestBed.configureTestingModule({
+      providers: [
+        ...setup.providers,
+        { provide: LD_SERVICE_CONFIG, useValue: { clientId: 'test-client-id' } },
+        { provide: LD_FLAG_CACHE, useValue: cache }
+      ]
+    });
+
+    service = TestBed.inject(LaunchDarklyService);
+  });
+
+  it('should serve cached flags with a CACHED reason until the client initializes', async () => {
+    service.start({ key: 'test-user' });
+
+    expect(cache.get).toHaveBeenCalledWith('test-client-id:user:test-user');
+    expect(await firstValueFrom(service.variation$('test-flag', 'fallback'))).toBe('cached-value');
+    const detail = await firstValueFrom(service.variationDetail$('test-flag', 'fallback'));
+    expect(detail.reason).toEqual({ kind: 'CACHED' });
+  });
+
+  it('should only emit change events for flags that differ from the cache', () => {
+    const testFlagValues: unknown[] = [];
+    const otherFlagValues: unknown[] = [];
+    service.start({ key: 'test-user' });
+    service.variation$('test-flag', 'fallback').subscribe(value => testFlagValues.push(value));
+    service.variation$('other-flag', 0).subscribe(value => otherFlagValues.push(value));
+
+    mockFlags({ 'test-flag': 'live-value', 'other-flag': 1 }, clientMock);
+    simulateInitialization(clientMock);
+
+    expect(testFlagValues).toEqual(['cached-value', 'live-value']);
+    expect(otherFlagValues).toEqual([1]);
+  });
+
+  it('should persist the live flags for the context', () => {
+    service.start({ key: 'test-user' });
+    mockFlags({ 'test-flag': 'live-value' }, clientMock);
+    simulateInitialization(clientMock);
+
+    expect(cache.set).toHaveBeenCalledWith('test-client-id:user:test-user', { 'test-flag': 'live-value' });
+  });
+
+  it('should skip the cache for contexts without a key', () => {
+    service.start({ anonymous: true });
+    // the SDK generates a key for anonymous contexts
+    clientMock.getContext.and.returnValue({ key: 'generated-key', anonymous: true });
+    mockFlags({ 'test-flag': 'live-value' }, clientMock);
+    simulateInitialization(clientMock);
+
+    expect(cache.get).not.toHaveBeenCalled();
+    expect(cache.set).not.toHaveBeenCalled();
+  });
+});
+
+describe('LaunchDarklyService flag defaults', () => {
+  interface TestFlags {
+    'test-flag': boolean;
+    'theme': 'light' | 'dark';
+  }
+
+  let service: LaunchDarklyService<TestFlags>;
+
+  beforeEach(() => {
+    const setup = setupLaunchDarklyServiceWithMockedClient();
+    TestBed.configureTestingModule({
+      providers: [
+        ...setup.providers,
+        { provide: LD_SERVICE_CONFIG, useValue: { clientId: 'test-client-id' } },
+        { provide: LD_FLAG_DEFAULTS, useValue: { 'test-flag': true, 'theme': 'light' } }
+      ]
+    });
+
+    service = TestBed.inject(LaunchDarklyService);
+  });
+
+  it('should use the declared default when no fallback is passed', async () => {
+    expect(await firstValueFrom(service.variation$('test-flag'))).toBe(true);
+    expect(service.variation('theme')()).toBe('light');
+    expect(service.variationDetail('theme')().value).toBe('light');
+  });
+
+  it('should prefer an explicit fallback over the declared default', async () => {
+    expect(await firstValueFrom(service.variation$('theme', 'dark'))).toBe('dark');
+  });
+
+  it('should type-check flag keys and fallbacks', () => {
+    // @ts-expect-error unknown flag key
+    service.variation('unknown-flag');
+    // @ts-expect-error fallback doesn't match the flag type
+    service.variation('theme', 'blue');
+
+    // without a fallback the declared default isn't known to the compiler
+    // @ts-expect-error the value may be undefined
+    const unchecked: 'light' | 'dark' = service.variation('theme')();
+    const theme: 'light' | 'dark' | undefined = service.variation('theme')();
+    const withFallback: 'light' | 'dark' = service.variation('theme', 'dark')();
+    expect(unchecked).toBe('light');
+    expect(theme).toBe('light');
+    expect(withFallback).toBe('light');
+  });
+});
@@ -0,0 +1,95 @@
+import { compareSemver, matchesCondition, selectPath } from '../../lib/utils/flag-conditions';
+
+describe('matchesCondition', () => {
+  it('should check truthiness without an operator or value', () => {
+    expect(matchesCondition(true, {})).toBeTrue();
+    expect(matchesCondition('', {})).toBeFalse();
+  });
+
+  it('should use strict equality by default', () => {
+    expect(matchesCondition('premium', { value: 'premium' })).toBeTrue();
+    expect(matchesCondition({ enabled: true }, { value: { enabled: true } })).toBeFalse();
+  });
+
+  it('should compare objects with deepEqual', () => {
+    expect(matchesCondition({ enabled: true }, { operator: 'deepEqual', value: { enabled: true } })).toBeTrue();
+    expect(matchesCondition({ enabled: true }, { operator: 'deepEqual', value: { enabled: false } })).toBeFalse();
+  });
+
+  it('should check membership with in and notIn', () => {
+    expect(matchesCondition('pro', { operator: 'in', value: ['pro', 'enterprise'] })).toBeTrue();
+    expect(matchesCondition('basic', { operator: 'in', value: ['pro', 'enterprise'] })).toBeFalse();
+    expect(matchesCondition('basic', { operator: 'notIn', value: ['pro', 'enterprise'] })).toBeTrue();
+    expect(matchesCondition('pro', { operator: 'in', value: 'pro' })).toBeFalse();
+  });
+
+  it('should compare numbers', () => {
+    expect(matchesCondition(10, { operator: 'gt', value: 5 })).toBeTrue();
+    expect(matchesCondition(5, { operator: 'gte', value: 5 })).toBeTrue();
+    expect(matchesCondition(5, { operator: 'lt', value: 5 })).toBeFalse();
+    expect(matchesCondition(5, { operator: 'lte', value: 5 })).toBeTrue();
+    expect(matchesCondition('10', { operator: 'gt', value: 5 })).toBeFalse();
+  });
+
+  it('should match strings against a regular expression', () => {
+    expect(matchesCondition('beta-eu', { operator: 'matches', value: /^beta-/ })).toBeTrue();
+    expect(matchesCondition('beta-eu', { operator: 'matches', value: '-us$' })).toBeFalse();
+    expect(matchesCondition(42, { operator: 'matches', value: '42' })).toBeFalse();
+  });
+
+  it('should not match invalid or missing patterns', () => {
+    spyOn(console, 'warn');
+    expect(matchesCondition('beta-eu', { operator: 'matches', value: '(beta' })).toBeFalse();
+    expect(console.warn).toHaveBeenCalled();
+    expect(matchesCondition('beta-eu', { operator: 'matches' })).toBeFalse();
+    expect(matchesCondition('42', { operator: 'matches', value: 42 })).toBeFalse();
+  });
+
+  it('should match global and sticky patterns on every check', () => {
+    const global = /beta/g;
+    expect(matchesCondition('beta-eu', { operator: 'matches', value: global })).toBeTrue();
+    expect(matchesCondition('beta-eu', { operator: 'matches', value: global })).toBeTrue();
+
+    const sticky = /beta/y;
+    expect(matchesCondition('beta-eu', { operator: 'matches', value: sticky })).toBeTrue();
+    expect(matchesCondition('beta-eu', { operator: 'matches', value: sticky })).toBeTrue();
+  });
+
+  it('should compare semantic versions', () => {
+    expect(matchesCondition('2.1.0', { operator: 'semverGte', value: '2.0.0' })).toBeTrue();
+    expect(matchesCondition('2.0.0-beta.1', { operator: 'semverLt', value: '2.0.0' })).toBeTrue();
+    expect(matchesCondition('v1.4.2', { operator: 'semverEq', value: '1.4.2' })).toBeTrue();
+    expect(matchesCondition('latest', { operator: 'semverGt', value: '1.0.0' })).toBeFalse();
+    expect(matchesCondition('latest', { operator: 'semverLte', value: '1.0.0' })).toBeFalse();
+  });
+
+  it('should compare the value at a path', () => {
+    const config = { limits: { seats: 10 }, tiers: [{ name: 'pro' }] };
+    expect(matchesCondition(config, { path: 'limits.seats', operator: 'gt', value: 5 })).toBeTrue();
+    expect(matchesCondition(config, { path: '$.tiers[0].name', value: 'pro' })).toBeTrue();
+    expect(matchesCondition(config, { path: 'limits.users' })).toBeFalse();
+  });
+
+  it('should prefer the predicate over the operator', () => {
+    const predicate = jasmine.createSpy('predicate').and.returnValue(true);
+
+    expect(matchesCondition({ seats: 3 }, { path: 'seats', operator: 'gt', value: 5, predicate })).toBeTrue();
+    expect(predicate).toHaveBeenCalledWith(3);
+  });
+});
+
+describe('selectPath', () => {
+  it('should return undefined for missing paths', () => {
+    expect(selectPath({ a: 1 }, 'a.b.c')).toBeUndefined();
+    expect(selectPath(null, 'a')).toBeUndefined();
+  });
+});
+
+describe('compareSemver', () => {
+  it('should order pre-release identifiers', () => {
+    expect(compareSemver('1.0.0-alpha', '1.0.0-alpha.1')).toBeLessThan(0);
+    expect(compareSemver('1.0.0-alpha.1', '1.0.0-alpha.beta')).toBeLessThan(0);
+    expect(compareSemver('1.0.0-beta.2', '1.0.0-beta.11')).toBeLessThan(0);
+    expect(compareSemver('1.0.0+build.5', '1.0.0')).toBe(0);
+  });
+});